@@ -0,0 +1,221 @@
+/**
+ * Audio inspection helpers
+ *
+ * Reads container metadata from uploaded audio without decoding it and
+ * rejects uploads that are empty, too large, too long or not audio.
+ */
+
+export interface WavInfo {
+  // WAVE_FORMAT_* code, resolved through WAVE_FORMAT_EXTENSIBLE: 1 = integer PCM, 3 = IEEE float
+  encoding: number;
+  sampleRate: number;
+  channels: number;
+  bitsPerSample: number;
+  // Byte offset and length of the PCM payload ("data" chunk)
+  dataOffset: number;
+  dataLength: number;
+  durationMs: number;
+}
+
+function readTag(view: DataView, offset: number): string {
+  return String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3),
+  );
+}
+
+// Walk the RIFF chunks of a WAV file; returns null when it isn't one
+export function parseWavHeader(audioData: Uint8Array): WavInfo | null {
+  if (audioData.byteLength < 12) {
+    return null;
+  }
+
+  const view = new DataView(audioData.buffer, audioData.byteOffset, audioData.byteLength);
+  if (readTag(view, 0) !== "RIFF" || readTag(view, 8) !== "WAVE") {
+    return null;
+  }
+
+  let format: { encoding: number; sampleRate: number; channels: number; bitsPerSample: number; byteRate: number } | null =
+    null;
+  let offset = 12;
+
+  while (offset + 8 <= view.byteLength) {
+    const tag = readTag(view, offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (tag === "fmt " && body + 16 <= view.byteLength) {
+      let encoding = view.getUint16(body, true);
+      if (encoding === 0xfffe && size >= 40 && body + 26 <= view.byteLength) {
+        encoding = view.getUint16(body + 24, true);
+      }
+      format = {
+        encoding,
+        channels: view.getUint16(body + 2, true),
+        sampleRate: view.getUint32(body + 4, true),
+        byteRate: view.getUint32(body + 8, true),
+        bitsPerSample: view.getUint16(body + 14, true),
+      };
+    } else if (tag === "data" && format) {
+      // Streamed WAVs may carry a placeholder size; clamp to what was received
+      const dataLength = Math.min(size, view.byteLength - body);
+      return {
+        encoding: format.encoding,
+        sampleRate: format.sampleRate,
+        channels: format.channels,
+        bitsPerSample: format.bitsPerSample,
+        dataOffset: body,
+        dataLength,
+        durationMs: format.byteRate > 0 ? Math.round((dataLength / format.byteRate) * 1000) : 0,
+      };
+    }
+
+    // Chunks are padded to an even size
+    offset = body + size + (size % 2);
+  }
+
+  return null;
+}
+
+export type AudioContainer = "wav" | "webm" | "ogg" | "mp3" | "m4a";
+
+export const AUDIO_MIME_TYPES: Record<AudioContainer, string> = {
+  wav: "audio/wav",
+  webm: "audio/webm",
+  ogg: "audio/ogg",
+  mp3: "audio/mpeg",
+  m4a: "audio/mp4",
+};
+
+function startsWith(data: Uint8Array, bytes: number[], offset = 0): boolean {
+  return data.byteLength >= offset + bytes.length && bytes.every((byte, i) => data[offset + i] === byte);
+}
+
+// Identify the container from its magic bytes
+export function sniffAudioFormat(audioData: Uint8Array): AudioContainer | null {
+  // "RIFF" .... "WAVE"
+  if (startsWith(audioData, [0x52, 0x49, 0x46, 0x46]) && startsWith(audioData, [0x57, 0x41, 0x56, 0x45], 8)) {
+    return "wav";
+  }
+  // EBML header (Matroska / WebM)
+  if (startsWith(audioData, [0x1a, 0x45, 0xdf, 0xa3])) {
+    return "webm";
+  }
+  // "OggS"
+  if (startsWith(audioData, [0x4f, 0x67, 0x67, 0x53])) {
+    return "ogg";
+  }
+  // "ID3" tag or a bare MPEG audio frame sync
+  if (startsWith(audioData, [0x49, 0x44, 0x33]) || (audioData[0] === 0xff && (audioData[1] & 0xe0) === 0xe0)) {
+    return "mp3";
+  }
+  // ISO BMFF "ftyp" box
+  if (startsWith(audioData, [0x66, 0x74, 0x79, 0x70], 4)) {
+    return "m4a";
+  }
+  return null;
+}
+
+export type AudioErrorCode =
+  | "empty_audio"
+  | "too_large"
+  | "too_long"
+  | "unsupported_format"
+  | "invalid_audio"
+  | "silent_audio";
+
+// Upload rejected before it reaches a provider
+export class AudioValidationError extends Error {
+  constructor(public code: AudioErrorCode, public status: number, message: string) {
+    super(message);
+    this.name = "AudioValidationError";
+  }
+}
+
+// Read a request body, giving up as soon as it grows past maxBytes
+export async function readBodyWithLimit(req: Request, maxBytes: number): Promise<Uint8Array<ArrayBuffer>> {
+  const tooLarge = () =>
+    new AudioValidationError("too_large", 413, `Upload exceeds the ${maxBytes} byte limit`);
+
+  const declared = Number(req.headers.get("Content-Length"));
+  if (declared > maxBytes) {
+    throw tooLarge();
+  }
+  if (!req.body) {
+    return new Uint8Array(0);
+  }
+
+  const reader = req.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    total += value.byteLength;
+    if (total > maxBytes) {
+      await reader.cancel();
+      throw tooLarge();
+    }
+    chunks.push(value);
+  }
+
+  const body = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return body;
+}
+
+export interface AudioInfo {
+  format: AudioContainer;
+  mimeType: string;
+  // Known for WAV only; other containers would need decoding
+  durationMs?: number;
+  sampleRate?: number;
+  channels?: number;
+}
+
+// Check that an upload is non-empty, a supported container and not too long
+export function validateAudio(audioData: Uint8Array, maxDurationMs: number): AudioInfo {
+  if (audioData.byteLength === 0) {
+    throw new AudioValidationError("empty_audio", 400, "Upload is empty");
+  }
+
+  const format = sniffAudioFormat(audioData);
+  if (!format) {
+    throw new AudioValidationError(
+      "unsupported_format",
+      415,
+      "Upload is not a supported audio format (WAV, WebM, Ogg, MP3, M4A)",
+    );
+  }
+
+  const info: AudioInfo = { format, mimeType: AUDIO_MIME_TYPES[format] };
+  if (format !== "wav") {
+    return info;
+  }
+
+  const wav = parseWavHeader(audioData);
+  if (!wav || wav.sampleRate === 0 || wav.channels === 0) {
+    throw new AudioValidationError("invalid_audio", 422, "WAV header is malformed");
+  }
+  if (wav.dataLength === 0) {
+    throw new AudioValidationError("empty_audio", 400, "WAV file contains no audio data");
+  }
+  if (wav.durationMs > maxDurationMs) {
+    throw new AudioValidationError(
+      "too_long",
+      413,
+      `Recording is ${Math.round(wav.durationMs / 1000)}s, longer than the ${Math.round(maxDurationMs / 1000)}s limit`,
+    );
+  }
+
+  return { ...info, durationMs: wav.durationMs, sampleRate: wav.sampleRate, channels: wav.channels };
+}
@@ -0,0 +1,111 @@
+import assert from "node:assert/strict";
+import { AudioValidationError, parseWavHeader, readBodyWithLimit, sniffAudioFormat, validateAudio } from "./audio.ts";
+
+// 16-bit mono PCM WAV of `seconds` of silence
+function wav(seconds: number, sampleRate = 16000): Uint8Array<ArrayBuffer> {
+  const dataLength = Math.round(seconds * sampleRate) * 2;
+  const bytes = new Uint8Array(44 + dataLength);
+  const view = new DataView(bytes.buffer);
+  const tag = (offset: number, value: string) => [...value].forEach((c, i) => view.setUint8(offset + i, c.charCodeAt(0)));
+  tag(0, "RIFF");
+  view.setUint32(4, 36 + dataLength, true);
+  tag(8, "WAVE");
+  tag(12, "fmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, 1, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  tag(36, "data");
+  view.setUint32(40, dataLength, true);
+  return bytes;
+}
+
+const isValidationError = (code: string, status: number) => (error: unknown) =>
+  error instanceof AudioValidationError && error.code === code && error.status === status;
+
+Deno.test("sniffAudioFormat", () => {
+  assert.equal(sniffAudioFormat(wav(0.1)), "wav");
+  assert.equal(sniffAudioFormat(Uint8Array.of(0x1a, 0x45, 0xdf, 0xa3, 0x01)), "webm");
+  assert.equal(sniffAudioFormat(new TextEncoder().encode("OggS\0\x02")), "ogg");
+  assert.equal(sniffAudioFormat(new TextEncoder().encode("ID3\x04")), "mp3");
+  assert.equal(sniffAudioFormat(Uint8Array.of(0xff, 0xfb, 0x90, 0x00)), "mp3");
+  assert.equal(sniffAudioFormat(new TextEncoder().encode("\0\0\0\x20ftypM4A ")), "m4a");
+  assert.equal(sniffAudioFormat(new TextEncoder().encode("<html>")), null);
+});
+
+Deno.test("parseWavHeader", async (t) => {
+  await t.step("reads the format and duration", () => {
+    const info = parseWavHeader(wav(1.5, 8000));
+    assert.equal(info?.sampleRate, 8000);
+    assert.equal(info?.channels, 1);
+    assert.equal(info?.bitsPerSample, 16);
+    assert.equal(info?.dataOffset, 44);
+    assert.equal(info?.durationMs, 1500);
+  });
+
+  await t.step("clamps a placeholder data size to what was received", () => {
+    const bytes = wav(1);
+    new DataView(bytes.buffer).setUint32(40, 0xffffffff, true);
+    assert.equal(parseWavHeader(bytes)?.durationMs, 1000);
+  });
+
+  await t.step("rejects what isn't a WAV", () => {
+    assert.equal(parseWavHeader(new TextEncoder().encode("RIFF....AVI LIST")), null);
+    assert.equal(parseWavHeader(wav(1).subarray(0, 36)), null);
+  });
+});
+
+Deno.test("validateAudio", async (t) => {
+  await t.step("accepts WAV with its duration and other containers without", () => {
+    assert.deepEqual(validateAudio(wav(2), 60_000), {
+      format: "wav",
+      mimeType: "audio/wav",
+      durationMs: 2000,
+      sampleRate: 16000,
+      channels: 1,
+    });
+    assert.deepEqual(validateAudio(Uint8Array.of(0x1a, 0x45, 0xdf, 0xa3), 60_000), {
+      format: "webm",
+      mimeType: "audio/webm",
+    });
+  });
+
+  await t.step("rejects empty, unknown, malformed and long uploads", () => {
+    assert.throws(() => validateAudio(new Uint8Array(0), 60_000), isValidationError("empty_audio", 400));
+    assert.throws(() => validateAudio(new TextEncoder().encode("hello"), 60_000), isValidationError("unsupported_format", 415));
+    assert.throws(() => validateAudio(wav(1).subarray(0, 30), 60_000), isValidationError("invalid_audio", 422));
+    assert.throws(() => validateAudio(wav(0), 60_000), isValidationError("empty_audio", 400));
+    assert.throws(() => validateAudio(wav(3), 2000), isValidationError("too_long", 413));
+  });
+});
+
+Deno.test("readBodyWithLimit", async (t) => {
+  const upload = (body: BodyInit, headers: Record<string, string> = {}) =>
+    new Request("http://localhost/api/upload/x", { method: "POST", body, headers });
+
+  await t.step("reads a body within the limit", async () => {
+    assert.deepEqual(await readBodyWithLimit(upload(Uint8Array.of(1, 2, 3)), 3), Uint8Array.of(1, 2, 3));
+  });
+
+  await t.step("refuses an oversized Content-Length up front", async () => {
+    await assert.rejects(
+      readBodyWithLimit(upload("x", { "Content-Length": "100" }), 10),
+      isValidationError("too_large", 413),
+    );
+  });
+
+  await t.step("stops reading a stream once it passes the limit", async () => {
+    let pulled = 0;
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        pulled++;
+        controller.enqueue(new Uint8Array(4));
+      },
+    });
+    await assert.rejects(readBodyWithLimit(upload(body), 10), isValidationError("too_large", 413));
+    assert.ok(pulled <= 4, `pulled ${pulled} chunks`);
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Stored audio
+ *
+ * Audio the server keeps (synthesized replies under /api/audio/:id, and
+ * recordings archived for retranscribe) goes through the Storage
+ * interface, split into base64 chunks: Deno KV caps a value at 64 KiB and
+ * the SQLite backend stores values as JSON.
+ */
+
+import type { Storage } from "./storage.ts";
+
+export interface StoredAudio {
+  id: string;
+  data: Uint8Array<ArrayBuffer>;
+  mimeType: string;
+  createdAt: number;
+}
+
+export interface AudioStore {
+  // Store audio for `expireIn` milliseconds under `id` (a new one by
+  // default) and return the id. Nothing is left behind when a write fails.
+  put(data: Uint8Array, mimeType: string, expireIn: number, id?: string): Promise<string>;
+  get(id: string): Promise<StoredAudio | null>;
+  // Remove stored audio; nothing happens when it is already gone
+  delete(id: string): Promise<void>;
+}
+
+interface AudioMeta {
+  mimeType: string;
+  createdAt: number;
+  byteLength: number;
+  chunks: number;
+}
+
+// Raw bytes per chunk; 60 000 characters once base64-encoded
+const CHUNK_BYTES = 45_000;
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 8192) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 8192));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+}
+
+// Each store keeps its audio under its own top-level key, so ids from one
+// store can't be used to read another
+export function createAudioStore(storage: Storage, namespace: string): AudioStore {
+  return {
+    async put(data, mimeType, expireIn, id = crypto.randomUUID()) {
+      const chunks = Math.max(1, Math.ceil(data.length / CHUNK_BYTES));
+      const chunkKey = (i: number) => [namespace, id, "chunk", String(i)];
+      try {
+        await Promise.all(Array.from({ length: chunks }, (_, i) => {
+          const chunk = toBase64(data.subarray(i * CHUNK_BYTES, (i + 1) * CHUNK_BYTES));
+          return storage.set(chunkKey(i), chunk, { expireIn });
+        }));
+      } catch (error) {
+        await Promise.allSettled(Array.from({ length: chunks }, (_, i) => storage.delete(chunkKey(i))));
+        throw error;
+      }
+      // Written last so a reader never sees a partly stored file
+      const meta: AudioMeta = { mimeType, createdAt: Date.now(), byteLength: data.length, chunks };
+      await storage.set([namespace, id, "meta"], meta, { expireIn });
+      return id;
+    },
+
+    async get(id) {
+      const meta = (await storage.get<AudioMeta>([namespace, id, "meta"]))?.value;
+      if (!meta) {
+        return null;
+      }
+
+      const data = new Uint8Array(meta.byteLength);
+      let offset = 0;
+      for (let i = 0; i < meta.chunks; i++) {
+        const chunk = await storage.get<string>([namespace, id, "chunk", String(i)]);
+        if (!chunk) {
+          return null;
+        }
+        const bytes = fromBase64(chunk.value);
+        data.set(bytes, offset);
+        offset += bytes.length;
+      }
+      return { id, data, mimeType: meta.mimeType, createdAt: meta.createdAt };
+    },
+
+    async delete(id) {
+      const meta = (await storage.get<AudioMeta>([namespace, id, "meta"]))?.value;
+      // The meta entry goes first so readers stop finding the audio
+      await storage.delete([namespace, id, "meta"]);
+      if (meta) {
+        await Promise.all(
+          Array.from({ length: meta.chunks }, (_, i) => storage.delete([namespace, id, "chunk", String(i)])),
+        );
+      }
+    },
+  };
+}
@@ -0,0 +1,60 @@
+import assert from "node:assert/strict";
+import { createAudioStore } from "./audiostore.ts";
+import { createMemoryStorage, type Storage } from "./storage.ts";
+
+// Bytes that differ from chunk to chunk, so a misplaced chunk shows
+const audio = (length: number) => Uint8Array.from({ length }, (_, i) => (i * 7 + (i >> 10)) % 256);
+
+Deno.test("audio store", async (t) => {
+  const storage = createMemoryStorage();
+  const store = createAudioStore(storage, "recordings");
+
+  await t.step("round-trips audio across several chunks", async () => {
+    const data = audio(100_000);
+    const id = await store.put(data, "audio/wav", 60_000);
+    const stored = await store.get(id);
+    assert.equal(stored?.mimeType, "audio/wav");
+    assert.deepEqual(stored?.data, data);
+  });
+
+  await t.step("keeps the id it is given", async () => {
+    assert.equal(await store.put(audio(10), "audio/webm", 60_000, "take-1"), "take-1");
+    assert.equal((await store.get("take-1"))?.mimeType, "audio/webm");
+  });
+
+  await t.step("stores apart from other namespaces", async () => {
+    const id = await store.put(audio(10), "audio/wav", 60_000);
+    assert.equal(await createAudioStore(storage, "audio").get(id), null);
+  });
+
+  await t.step("delete removes the audio and its chunks", async () => {
+    const id = await store.put(audio(100_000), "audio/wav", 60_000);
+    await store.delete(id);
+    assert.equal(await store.get(id), null);
+    assert.deepEqual((await storage.list(["recordings", id], { limit: 10 })).values, []);
+    await store.delete("never-stored");
+  });
+
+  await t.step("audio expires", async () => {
+    const id = await store.put(audio(10), "audio/wav", 20);
+    await new Promise((resolve) => setTimeout(resolve, 40));
+    assert.equal(await store.get(id), null);
+  });
+
+  await t.step("a failed write leaves nothing behind", async () => {
+    const backing = createMemoryStorage();
+    let writes = 0;
+    const failing: Storage = {
+      ...backing,
+      set(key, value, options) {
+        // The second chunk fails
+        if (++writes === 2) {
+          return Promise.reject(new Error("disk full"));
+        }
+        return backing.set(key, value, options);
+      },
+    };
+    await assert.rejects(createAudioStore(failing, "recordings").put(audio(100_000), "audio/wav", 60_000, "x"), /disk full/);
+    assert.deepEqual((await backing.list(["recordings"], { limit: 10 })).values, []);
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Authentication
+ *
+ * API keys for the /mcp endpoint and HMAC-signed, short-lived recording
+ * links for the browser-facing /record/ and /api/ routes.
+ */
+
+import type { Storage } from "./storage.ts";
+
+// Constant-time string comparison
+function timingSafeEqual(a: string, b: string): boolean {
+  const encoder = new TextEncoder();
+  const left = encoder.encode(a);
+  const right = encoder.encode(b);
+  let diff = left.length ^ right.length;
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    diff |= (left[i] ?? 0) ^ (right[i] ?? 0);
+  }
+  return diff === 0;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+export interface ApiKey {
+  name: string;
+  key: string;
+}
+
+// Who a request is counted against: the API key name (or "anonymous" when
+// no keys are configured) and the client IP, when known
+export interface Client {
+  key: string;
+  ip?: string;
+}
+
+export const ANONYMOUS_CLIENT = "anonymous";
+
+// Parse MCP_API_KEYS: comma-separated `name:key` pairs or bare keys
+export function parseApiKeys(value: string | undefined): ApiKey[] {
+  return (value ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry, index) => {
+      const separator = entry.indexOf(":");
+      return separator > 0
+        ? { name: entry.slice(0, separator), key: entry.slice(separator + 1) }
+        : { name: `key-${index + 1}`, key: entry };
+    });
+}
+
+// Match `Authorization: Bearer <key>` or `X-API-Key: <key>` against the
+// configured keys; returns the key's name, or null when nothing matches
+export function authenticate(req: Request, keys: ApiKey[]): string | null {
+  const authorization = req.headers.get("Authorization");
+  const presented = authorization?.match(/^Bearer\s+(.+)$/i)?.[1].trim() ??
+    req.headers.get("X-API-Key")?.trim();
+  if (!presented) {
+    return null;
+  }
+
+  let match: string | null = null;
+  for (const { name, key } of keys) {
+    if (timingSafeEqual(presented, key) && match === null) {
+      match = name;
+    }
+  }
+  return match;
+}
+
+export interface LinkSignature {
+  exp: number;
+  sig: string;
+}
+
+export type LinkVerification = "valid" | "expired" | "invalid";
+
+export interface LinkSigner {
+  sign(sessionId: string, ttlMs: number): Promise<LinkSignature>;
+  verify(sessionId: string, exp: string | null, sig: string | null): Promise<LinkVerification>;
+}
+
+// HMAC-SHA256 signer for recording links. Uses RECORD_LINK_SECRET when set,
+// otherwise a random secret generated once and shared through storage so
+// every isolate of a deployment verifies the same links.
+export function createLinkSigner(storage: Storage, configuredSecret: string | undefined): LinkSigner {
+  let keyPromise: Promise<CryptoKey> | undefined;
+
+  async function loadSecret(): Promise<string> {
+    if (configuredSecret) {
+      return configuredSecret;
+    }
+
+    const existing = await storage.get<string>(["config", "record-link-secret"]);
+    if (existing) {
+      return existing.value;
+    }
+
+    const generated = toBase64Url(crypto.getRandomValues(new Uint8Array(32)));
+    if (await storage.compareAndSet(["config", "record-link-secret"], null, generated)) {
+      return generated;
+    }
+
+    // Another isolate won the race
+    return (await storage.get<string>(["config", "record-link-secret"]))!.value;
+  }
+
+  function getKey(): Promise<CryptoKey> {
+    keyPromise ??= loadSecret().then((secret) =>
+      crypto.subtle.importKey(
+        "raw",
+        new TextEncoder().encode(secret),
+        { name: "HMAC", hash: "SHA-256" },
+        false,
+        ["sign"],
+      )
+    );
+    return keyPromise;
+  }
+
+  async function signature(sessionId: string, exp: number): Promise<string> {
+    const data = new TextEncoder().encode(`${sessionId}.${exp}`);
+    const mac = await crypto.subtle.sign("HMAC", await getKey(), data);
+    return toBase64Url(new Uint8Array(mac));
+  }
+
+  return {
+    async sign(sessionId, ttlMs) {
+      const exp = Math.floor((Date.now() + ttlMs) / 1000);
+      return { exp, sig: await signature(sessionId, exp) };
+    },
+
+    async verify(sessionId, exp, sig) {
+      if (!exp || !sig || !/^\d+$/.test(exp)) {
+        return "invalid";
+      }
+      if (!timingSafeEqual(sig, await signature(sessionId, Number(exp)))) {
+        return "invalid";
+      }
+      return Number(exp) * 1000 < Date.now() ? "expired" : "valid";
+    },
+  };
+}
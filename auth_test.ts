@@ -0,0 +1,55 @@
+import assert from "node:assert/strict";
+import { authenticate, createLinkSigner, parseApiKeys } from "./auth.ts";
+import { createMemoryStorage } from "./storage.ts";
+
+Deno.test("parseApiKeys", () => {
+  assert.deepEqual(parseApiKeys(undefined), []);
+  assert.deepEqual(parseApiKeys(" ci:abc , def ,, "), [
+    { name: "ci", key: "abc" },
+    { name: "key-2", key: "def" },
+  ]);
+});
+
+Deno.test("authenticate", () => {
+  const keys = parseApiKeys("ci:abc,laptop:xyz");
+  const request = (headers: Record<string, string>) => new Request("http://localhost/mcp", { headers });
+  assert.equal(authenticate(request({ Authorization: "Bearer xyz" }), keys), "laptop");
+  assert.equal(authenticate(request({ "X-API-Key": "abc" }), keys), "ci");
+  assert.equal(authenticate(request({ Authorization: "Bearer nope" }), keys), null);
+  assert.equal(authenticate(request({}), keys), null);
+});
+
+Deno.test("link signing", async (t) => {
+  const signer = createLinkSigner(createMemoryStorage(), "secret");
+
+  await t.step("verifies its own signature", async () => {
+    const { exp, sig } = await signer.sign("session-1", 60_000);
+    assert.equal(await signer.verify("session-1", String(exp), sig), "valid");
+  });
+
+  await t.step("rejects another session, a changed expiry or a missing part", async () => {
+    const { exp, sig } = await signer.sign("session-1", 60_000);
+    assert.equal(await signer.verify("session-2", String(exp), sig), "invalid");
+    assert.equal(await signer.verify("session-1", String(exp + 60), sig), "invalid");
+    assert.equal(await signer.verify("session-1", null, sig), "invalid");
+    assert.equal(await signer.verify("session-1", String(exp), null), "invalid");
+    assert.equal(await signer.verify("session-1", "soon", sig), "invalid");
+  });
+
+  await t.step("reports expired links", async () => {
+    const { exp, sig } = await signer.sign("session-1", -2000);
+    assert.equal(await signer.verify("session-1", String(exp), sig), "expired");
+  });
+
+  await t.step("a different secret doesn't verify", async () => {
+    const { exp, sig } = await signer.sign("session-1", 60_000);
+    const other = createLinkSigner(createMemoryStorage(), "other secret");
+    assert.equal(await other.verify("session-1", String(exp), sig), "invalid");
+  });
+
+  await t.step("a generated secret is shared through storage", async () => {
+    const storage = createMemoryStorage();
+    const { exp, sig } = await createLinkSigner(storage, undefined).sign("session-1", 60_000);
+    assert.equal(await createLinkSigner(storage, undefined).verify("session-1", String(exp), sig), "valid");
+  });
+});
@@ -0,0 +1,391 @@
+/**
+ * Configuration
+ *
+ * Every setting the server reads, typed and validated in one place. Values
+ * come from environment variables, falling back to an optional JSON file
+ * (CONFIG_FILE) whose keys are the same variable names, then to defaults.
+ * All problems are reported together at startup.
+ */
+
+import { type ApiKey, parseApiKeys } from "./auth.ts";
+import { type Locale, LOCALES } from "./i18n.ts";
+import { LOG_LEVELS, type LogLevel } from "./log.ts";
+import type { NormalizeOptions } from "./normalize.ts";
+import { parseRateLimit, type RateLimitConfig } from "./ratelimit.ts";
+import type { ResilienceOptions } from "./resilience.ts";
+import type { SegmentOptions } from "./segment.ts";
+import { SPEECH_PROVIDER_NAMES, type SpeechSettings } from "./speech.ts";
+import { STORAGE_BACKENDS, type StorageBackend } from "./storage.ts";
+import { PROVIDER_NAMES, type ProviderSettings } from "./transcription.ts";
+
+export interface Config {
+  port: number;
+  // Origin the recording links point at; derived from each request when null
+  publicBaseUrl: string | null;
+  // Honour Forwarded / X-Forwarded-* headers when deriving the origin
+  trustProxy: boolean;
+  // Reverse proxies in front of the server, each appending one forwarded address
+  proxyHops: number;
+  logLevel: LogLevel;
+  // Language of tool results and of pages when the browser expresses no preference
+  defaultLocale: Locale;
+  storage: { backend: StorageBackend; path?: string };
+  provider: ProviderSettings;
+  resilience: ResilienceOptions;
+  // Text-to-speech provider and how long synthesized replies stay downloadable
+  speech: SpeechSettings & { audioTtlMs: number };
+  historyRetentionMs: number;
+  // Opt-in storage of the normalized audio behind each transcript, for retranscribe
+  archive: { enabled: boolean; retentionMs: number };
+  upload: { maxBytes: number; maxAudioMs: number };
+  normalize: { enabled: boolean } & NormalizeOptions;
+  segment: SegmentOptions;
+  stream: { partialIntervalMs: number; partialWindowMs: number };
+  dictationRulesFile?: string;
+  sessions: {
+    ttlMs: number;
+    defaultWaitSeconds: number;
+    maxWaitSeconds: number;
+    pollIntervalMs: number;
+  };
+  auth: {
+    apiKeys: ApiKey[];
+    recordLinkSecret?: string;
+    recordLinkTtlMs: number;
+  };
+  corsAllowedOrigins: string[];
+  rateLimits: RateLimitConfig;
+}
+
+export class ConfigError extends Error {
+  constructor(public problems: string[]) {
+    super(`Invalid configuration:\n${problems.map((problem) => `  - ${problem}`).join("\n")}`);
+    this.name = "ConfigError";
+  }
+}
+
+type Source = (name: string) => string | undefined;
+
+// Reads named settings from a source, collecting problems instead of
+// stopping at the first one
+class SettingsReader {
+  problems: string[] = [];
+
+  constructor(private source: Source) {}
+
+  string(name: string): string | undefined;
+  string(name: string, fallback: string): string;
+  string(name: string, fallback?: string): string | undefined {
+    const value = this.source(name)?.trim();
+    return value ? value : fallback;
+  }
+
+  number(name: string, fallback: number, { min = -Infinity, integer = false } = {}): number {
+    const raw = this.string(name);
+    if (raw === undefined) {
+      return fallback;
+    }
+    const value = Number(raw);
+    if (!Number.isFinite(value) || (integer && !Number.isInteger(value)) || value < min) {
+      this.problems.push(`${name} must be ${integer ? "an integer" : "a number"} >= ${min}, got "${raw}"`);
+      return fallback;
+    }
+    return value;
+  }
+
+  // Like number(), with 0 or unset meaning "no limit"
+  limit(name: string): number | null {
+    const value = this.number(name, 0, { min: 0 });
+    return value > 0 ? value : null;
+  }
+
+  boolean(name: string, fallback: boolean): boolean {
+    const raw = this.string(name)?.toLowerCase();
+    if (raw === undefined) {
+      return fallback;
+    }
+    if (["true", "1", "yes"].includes(raw)) {
+      return true;
+    }
+    if (["false", "0", "no"].includes(raw)) {
+      return false;
+    }
+    this.problems.push(`${name} must be true or false, got "${raw}"`);
+    return fallback;
+  }
+
+  oneOf<T extends string>(name: string, allowed: readonly T[], fallback: T): T {
+    const raw = this.string(name);
+    if (raw === undefined) {
+      return fallback;
+    }
+    if (!allowed.includes(raw as T)) {
+      this.problems.push(`${name} must be one of ${allowed.join(", ")}, got "${raw}"`);
+      return fallback;
+    }
+    return raw as T;
+  }
+
+  url(name: string): string | undefined;
+  url(name: string, fallback: string): string;
+  url(name: string, fallback?: string): string | undefined {
+    const raw = this.string(name);
+    if (raw === undefined) {
+      return fallback;
+    }
+    if (!URL.canParse(raw) || !["http:", "https:"].includes(new URL(raw).protocol)) {
+      this.problems.push(`${name} must be an http(s) URL, got "${raw}"`);
+      return fallback;
+    }
+    return raw;
+  }
+
+  list(name: string): string[] {
+    return (this.string(name) ?? "")
+      .split(",")
+      .map((item) => item.trim())
+      .filter(Boolean);
+  }
+
+  rateLimit(name: string) {
+    try {
+      return parseRateLimit(this.string(name), name);
+    } catch (error) {
+      this.problems.push(error instanceof Error ? error.message : String(error));
+      return null;
+    }
+  }
+}
+
+// Settings from a CONFIG_FILE object: scalars as strings, arrays comma-joined
+function fileSource(file: Record<string, unknown>): Source {
+  return (name) => {
+    const value = file[name];
+    if (value === undefined || value === null) {
+      return undefined;
+    }
+    return Array.isArray(value) ? value.join(",") : String(value);
+  };
+}
+
+// Build the configuration from environment variables over `file`; throws
+// ConfigError listing every invalid setting
+export function parseConfig(env: Source, file: Record<string, unknown> = {}): Config {
+  const fromFile = fileSource(file);
+  const read = new SettingsReader((name) => env(name) ?? fromFile(name));
+
+  const publicBaseUrl = read.url("PUBLIC_BASE_URL");
+  if (publicBaseUrl && new URL(publicBaseUrl).pathname !== "/") {
+    read.problems.push(`PUBLIC_BASE_URL must be an origin without a path, got "${publicBaseUrl}"`);
+  }
+
+  const provider = read.oneOf("TRANSCRIPTION_PROVIDER", PROVIDER_NAMES, "siliconflow");
+  const providerSettings: ProviderSettings = {
+    provider,
+    siliconflow: {
+      model: read.string("SILICONFLOW_MODEL", "FunAudioLLM/SenseVoiceSmall"),
+      apiKey: read.string("SILICONFLOW_API_KEY"),
+    },
+    openai: {
+      model: read.string("OPENAI_MODEL", "whisper-1"),
+      baseUrl: read.url("OPENAI_BASE_URL", "https://api.openai.com/v1"),
+      apiKey: read.string("OPENAI_API_KEY"),
+    },
+    whisper: {
+      model: read.string("WHISPER_MODEL", "whisper.cpp"),
+      url: read.url("WHISPER_SERVER_URL", "http://localhost:8080"),
+    },
+    fake: {
+      transcript: read.string("FAKE_TRANSCRIPT"),
+      failStatus: read.limit("FAKE_FAIL_STATUS") ?? undefined,
+    },
+  };
+
+  const defaultWaitSeconds = read.number("DEFAULT_WAIT_SECONDS", 60, { min: 0 });
+  const maxWaitSeconds = read.number("MAX_WAIT_SECONDS", 240, { min: 0 });
+  if (defaultWaitSeconds > maxWaitSeconds) {
+    read.problems.push(`DEFAULT_WAIT_SECONDS (${defaultWaitSeconds}) must not exceed MAX_WAIT_SECONDS (${maxWaitSeconds})`);
+  }
+
+  const storagePath = read.string("STORAGE_PATH");
+  const dictationRulesFile = read.string("DICTATION_RULES_FILE");
+  const recordLinkSecret = read.string("RECORD_LINK_SECRET");
+
+  const config: Config = {
+    port: read.number("PORT", 8000, { min: 0, integer: true }),
+    publicBaseUrl: publicBaseUrl?.replace(/\/+$/, "") ?? null,
+    trustProxy: read.boolean("TRUST_PROXY", false),
+    proxyHops: read.number("TRUSTED_PROXY_HOPS", 1, { min: 1, integer: true }),
+    logLevel: read.oneOf("LOG_LEVEL", LOG_LEVELS, "info"),
+    defaultLocale: read.oneOf("DEFAULT_LOCALE", LOCALES, "zh-CN"),
+    storage: {
+      backend: read.oneOf("STORAGE_BACKEND", STORAGE_BACKENDS, "kv"),
+      ...(storagePath ? { path: storagePath } : {}),
+    },
+    provider: providerSettings,
+    speech: {
+      provider: read.oneOf("TTS_PROVIDER", SPEECH_PROVIDER_NAMES, "siliconflow"),
+      siliconflow: {
+        model: read.string("TTS_MODEL", "FunAudioLLM/CosyVoice2-0.5B"),
+        voice: read.string("TTS_VOICE", "FunAudioLLM/CosyVoice2-0.5B:alex"),
+        apiKey: providerSettings.siliconflow.apiKey,
+      },
+      audioTtlMs: read.number("TTS_AUDIO_TTL_SECONDS", 3600, { min: 1 }) * 1000,
+    },
+    resilience: {
+      timeoutMs: read.number("PROVIDER_TIMEOUT_SECONDS", 60, { min: 1 }) * 1000,
+      retries: read.number("PROVIDER_RETRIES", 2, { min: 0, integer: true }),
+      retryBaseMs: 500,
+      maxRetryDelayMs: 30_000,
+      breakerThreshold: read.number("CIRCUIT_BREAKER_THRESHOLD", 5, { min: 1, integer: true }),
+      breakerCooldownMs: read.number("CIRCUIT_BREAKER_COOLDOWN_SECONDS", 30, { min: 0 }) * 1000,
+    },
+    historyRetentionMs: read.number("HISTORY_RETENTION_DAYS", 7, { min: 0 }) * 24 * 60 * 60 * 1000,
+    archive: {
+      enabled: read.boolean("AUDIO_ARCHIVE", false),
+      retentionMs: read.number("AUDIO_ARCHIVE_DAYS", 3, { min: 0 }) * 24 * 60 * 60 * 1000,
+    },
+    upload: {
+      maxBytes: read.number("MAX_UPLOAD_BYTES", 25 * 1024 * 1024, { min: 1, integer: true }),
+      maxAudioMs: read.number("MAX_AUDIO_SECONDS", 300, { min: 1 }) * 1000,
+    },
+    normalize: {
+      enabled: read.boolean("NORMALIZE_AUDIO", true),
+      silenceThresholdDb: read.number("SILENCE_THRESHOLD_DB", -45),
+      paddingMs: read.number("SILENCE_PADDING_MS", 200, { min: 0, integer: true }),
+    },
+    segment: {
+      maxSegmentMs: read.number("SEGMENT_SECONDS", 30, { min: 1 }) * 1000,
+      concurrency: read.number("SEGMENT_CONCURRENCY", 3, { min: 1, integer: true }),
+    },
+    stream: {
+      partialIntervalMs: read.number("STREAM_PARTIAL_INTERVAL_MS", 2000, { min: 0, integer: true }),
+      partialWindowMs: read.number("STREAM_PARTIAL_WINDOW_SECONDS", 15, { min: 1 }) * 1000,
+    },
+    ...(dictationRulesFile ? { dictationRulesFile } : {}),
+    sessions: {
+      ttlMs: read.number("SESSION_TTL_SECONDS", 300, { min: 1 }) * 1000,
+      defaultWaitSeconds,
+      maxWaitSeconds,
+      pollIntervalMs: read.number("WAIT_POLL_INTERVAL_MS", 500, { min: 50, integer: true }),
+    },
+    auth: {
+      apiKeys: parseApiKeys(read.string("MCP_API_KEYS")),
+      ...(recordLinkSecret ? { recordLinkSecret } : {}),
+      recordLinkTtlMs: read.number("RECORD_LINK_TTL_SECONDS", 300, { min: 1 }) * 1000,
+    },
+    corsAllowedOrigins: read.list("CORS_ALLOWED_ORIGINS"),
+    rateLimits: {
+      sessionsPerKey: read.rateLimit("RATE_LIMIT_SESSIONS_PER_KEY"),
+      sessionsPerIp: read.rateLimit("RATE_LIMIT_SESSIONS_PER_IP"),
+      uploadsPerKey: read.rateLimit("RATE_LIMIT_UPLOADS_PER_KEY"),
+      uploadsPerIp: read.rateLimit("RATE_LIMIT_UPLOADS_PER_IP"),
+      dailyAudioSeconds: read.limit("AUDIO_QUOTA_DAILY_SECONDS"),
+      monthlyAudioSeconds: read.limit("AUDIO_QUOTA_MONTHLY_SECONDS"),
+    },
+  };
+
+  if (config.auth.recordLinkTtlMs > config.sessions.ttlMs) {
+    read.problems.push("RECORD_LINK_TTL_SECONDS must not exceed SESSION_TTL_SECONDS");
+  }
+
+  if (read.problems.length > 0) {
+    throw new ConfigError(read.problems);
+  }
+  return config;
+}
+
+// Load the configuration from the process environment and CONFIG_FILE
+export async function loadConfig(): Promise<Config> {
+  const env = (name: string) => Deno.env.get(name);
+  const path = env("CONFIG_FILE");
+  if (!path) {
+    return parseConfig(env);
+  }
+
+  let file: unknown;
+  try {
+    file = JSON.parse(await Deno.readTextFile(path));
+  } catch (error) {
+    throw new ConfigError([`CONFIG_FILE ${path}: ${error instanceof Error ? error.message : String(error)}`]);
+  }
+  if (!file || typeof file !== "object" || Array.isArray(file)) {
+    throw new ConfigError([`CONFIG_FILE ${path} must contain a JSON object`]);
+  }
+  return parseConfig(env, file as Record<string, unknown>);
+}
+
+const REDACTED = "[redacted]";
+
+// The effective configuration with API keys and secrets masked, for /api/config
+export function redactConfig(config: Config): Config {
+  const secret = (value: string | undefined) => (value ? REDACTED : undefined);
+  return {
+    ...config,
+    provider: {
+      ...config.provider,
+      siliconflow: { ...config.provider.siliconflow, apiKey: secret(config.provider.siliconflow.apiKey) },
+      openai: { ...config.provider.openai, apiKey: secret(config.provider.openai.apiKey) },
+    },
+    speech: {
+      ...config.speech,
+      siliconflow: { ...config.speech.siliconflow, apiKey: secret(config.speech.siliconflow.apiKey) },
+    },
+    auth: {
+      ...config.auth,
+      apiKeys: config.auth.apiKeys.map(({ name }) => ({ name, key: REDACTED })),
+      recordLinkSecret: secret(config.auth.recordLinkSecret),
+    },
+  };
+}
+
+// A parameter of the first hop in a Forwarded header
+// (Forwarded: for=192.0.2.1;proto=https;host=example.com, ...)
+function forwardedParam(req: Request, name: string): string | undefined {
+  const hop = req.headers.get("Forwarded")?.split(",")[0];
+  return hop?.match(new RegExp(`(?:^|;)\\s*${name}="?([^";]+)"?`, "i"))?.[1].trim();
+}
+
+// Origin a request reached the server at: the Forwarded / X-Forwarded-*
+// headers of a trusted proxy, otherwise the request URL's own origin
+export function requestOrigin(req: Request, trustProxy: boolean): string {
+  const url = new URL(req.url);
+  if (!trustProxy) {
+    return url.origin;
+  }
+
+  const param = (name: string) => forwardedParam(req, name);
+  const proto = param("proto") ?? req.headers.get("X-Forwarded-Proto")?.split(",")[0].trim();
+  const host = param("host") ?? req.headers.get("X-Forwarded-Host")?.split(",")[0].trim();
+
+  const origin = `${proto === "http" || proto === "https" ? proto : url.protocol.slice(0, -1)}://${host || url.host}`;
+  return URL.canParse(origin) ? new URL(origin).origin : url.origin;
+}
+
+// Addresses in the Forwarded `for=` parameters, or else X-Forwarded-For,
+// oldest hop first
+function forwardedFor(req: Request): string[] {
+  const forwarded = req.headers.get("Forwarded");
+  if (forwarded) {
+    return forwarded.split(",")
+      .map((hop) => hop.match(/(?:^|;)\s*for="?([^";]+)"?/i)?.[1].trim().replace(/^\[|\]$/g, "") ?? "");
+  }
+  return req.headers.get("X-Forwarded-For")?.split(",").map((hop) => hop.trim()) ?? [];
+}
+
+// Client address: with trusted proxies, the address `proxyHops` entries from
+// the right of the forwarded list, which those proxies appended themselves.
+// Entries further left came from the client and can be anything, so with
+// fewer entries than hops the connection's peer address is used.
+export function requestIp(
+  req: Request,
+  peer: string | undefined,
+  trustProxy: boolean,
+  proxyHops = 1,
+): string | undefined {
+  if (!trustProxy) {
+    return peer;
+  }
+  const hops = forwardedFor(req);
+  return (hops.length >= proxyHops ? hops[hops.length - proxyHops] : undefined) || peer;
+}
@@ -0,0 +1,125 @@
+import assert from "node:assert/strict";
+import { ConfigError, parseConfig, requestIp, requestOrigin } from "./config.ts";
+
+const env = (values: Record<string, string>) => (name: string) => values[name];
+
+function problems(values: Record<string, string>, file: Record<string, unknown> = {}): string[] {
+  try {
+    parseConfig(env(values), file);
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      return error.problems;
+    }
+    throw error;
+  }
+  return [];
+}
+
+Deno.test("parseConfig", async (t) => {
+  await t.step("defaults", () => {
+    const config = parseConfig(env({}));
+    assert.equal(config.port, 8000);
+    assert.equal(config.publicBaseUrl, null);
+    assert.equal(config.trustProxy, false);
+    assert.equal(config.proxyHops, 1);
+    assert.equal(config.provider.provider, "siliconflow");
+    assert.equal(config.sessions.ttlMs, 300_000);
+    assert.equal(config.rateLimits.sessionsPerKey, null);
+    assert.equal(config.rateLimits.dailyAudioSeconds, null);
+    assert.deepEqual(config.auth.apiKeys, []);
+  });
+
+  await t.step("reads and converts settings", () => {
+    const config = parseConfig(env({
+      PORT: "9000",
+      PUBLIC_BASE_URL: "https://voice.example.com/",
+      TRUST_PROXY: "yes",
+      TRUSTED_PROXY_HOPS: "2",
+      SESSION_TTL_SECONDS: "600",
+      RATE_LIMIT_SESSIONS_PER_KEY: "30/60",
+      AUDIO_QUOTA_DAILY_SECONDS: "3600",
+      CORS_ALLOWED_ORIGINS: "https://a.example, https://b.example",
+      MCP_API_KEYS: "ci:abc",
+    }));
+    assert.equal(config.port, 9000);
+    assert.equal(config.publicBaseUrl, "https://voice.example.com");
+    assert.equal(config.trustProxy, true);
+    assert.equal(config.proxyHops, 2);
+    assert.equal(config.sessions.ttlMs, 600_000);
+    assert.deepEqual(config.rateLimits.sessionsPerKey, { limit: 30, windowMs: 60_000 });
+    assert.equal(config.rateLimits.dailyAudioSeconds, 3600);
+    assert.deepEqual(config.corsAllowedOrigins, ["https://a.example", "https://b.example"]);
+    assert.deepEqual(config.auth.apiKeys, [{ name: "ci", key: "abc" }]);
+  });
+
+  await t.step("environment variables override the config file", () => {
+    const config = parseConfig(env({ PORT: "9000" }), {
+      PORT: 7000,
+      LOG_LEVEL: "debug",
+      CORS_ALLOWED_ORIGINS: ["https://a.example", "https://b.example"],
+    });
+    assert.equal(config.port, 9000);
+    assert.equal(config.logLevel, "debug");
+    assert.deepEqual(config.corsAllowedOrigins, ["https://a.example", "https://b.example"]);
+  });
+
+  await t.step("lists every invalid setting", () => {
+    const found = problems({
+      PORT: "eighty",
+      TRUST_PROXY: "maybe",
+      TRANSCRIPTION_PROVIDER: "nope",
+      PUBLIC_BASE_URL: "https://voice.example.com/app",
+      RATE_LIMIT_UPLOADS_PER_IP: "lots",
+      TRUSTED_PROXY_HOPS: "0",
+    });
+    assert.equal(found.length, 6);
+    for (const name of ["PORT", "TRUST_PROXY", "TRANSCRIPTION_PROVIDER", "PUBLIC_BASE_URL", "RATE_LIMIT_UPLOADS_PER_IP"]) {
+      assert.ok(found.some((problem) => problem.includes(name)), name);
+    }
+  });
+
+  await t.step("checks settings against each other", () => {
+    assert.deepEqual(problems({ DEFAULT_WAIT_SECONDS: "300" }), [
+      "DEFAULT_WAIT_SECONDS (300) must not exceed MAX_WAIT_SECONDS (240)",
+    ]);
+    assert.deepEqual(problems({ RECORD_LINK_TTL_SECONDS: "600" }), [
+      "RECORD_LINK_TTL_SECONDS must not exceed SESSION_TTL_SECONDS",
+    ]);
+  });
+});
+
+const request = (headers: Record<string, string>) => new Request("http://10.0.0.5:8000/mcp", { headers });
+
+Deno.test("requestIp", async (t) => {
+  await t.step("ignores forwarding headers unless the proxy is trusted", () => {
+    assert.equal(requestIp(request({ "X-Forwarded-For": "203.0.113.7" }), "10.0.0.1", false), "10.0.0.1");
+  });
+
+  await t.step("takes the address the proxy appended, not what the client sent", () => {
+    const spoofed = request({ "X-Forwarded-For": "198.51.100.1, 203.0.113.7" });
+    assert.equal(requestIp(spoofed, "10.0.0.1", true), "203.0.113.7");
+    const chained = request({ "X-Forwarded-For": "198.51.100.1, 203.0.113.7, 10.0.0.2" });
+    assert.equal(requestIp(chained, "10.0.0.1", true, 2), "203.0.113.7");
+  });
+
+  await t.step("reads Forwarded for=, including bracketed IPv6", () => {
+    const forwarded = request({ Forwarded: 'for=198.51.100.1, for="[2001:db8::1]";proto=https' });
+    assert.equal(requestIp(forwarded, "10.0.0.1", true), "2001:db8::1");
+  });
+
+  await t.step("falls back to the peer when there are fewer hops", () => {
+    assert.equal(requestIp(request({}), "10.0.0.1", true), "10.0.0.1");
+    const short = request({ "X-Forwarded-For": "198.51.100.1, 203.0.113.7" });
+    assert.equal(requestIp(short, "10.0.0.1", true, 3), "10.0.0.1");
+  });
+});
+
+Deno.test("requestOrigin", () => {
+  const proxied = request({ "X-Forwarded-Proto": "https", "X-Forwarded-Host": "voice.example.com" });
+  assert.equal(requestOrigin(proxied, false), "http://10.0.0.5:8000");
+  assert.equal(requestOrigin(proxied, true), "https://voice.example.com");
+  assert.equal(
+    requestOrigin(request({ Forwarded: "proto=https;host=voice.example.com" }), true),
+    "https://voice.example.com",
+  );
+});
@@ -0,0 +1,76 @@
+/**
+ * Conversation utterances
+ *
+ * A conversation session keeps one recording page open for many
+ * press-to-talk takes. Each take is appended to the session's ordered
+ * utterance queue, which the agent reads from a cursor with the
+ * get-new-utterances tool or as the voice://conversations/{id} resource.
+ */
+
+import type { AudioEvent, SpeechEmotion } from "./sensevoice.ts";
+import type { Storage } from "./storage.ts";
+
+export interface Utterance {
+  // 1-based position in the conversation; the cursor is the last seq read
+  seq: number;
+  text: string;
+  createdAt: number;
+  durationMs?: number;
+  language?: string;
+  emotion?: SpeechEmotion;
+  event?: AudioEvent;
+  itn?: boolean;
+  // History entry holding the same text
+  transcriptId?: string;
+}
+
+export interface UtteranceQueue {
+  // Store an utterance under the first free seq after `count` and return it.
+  // The seq is claimed by writing the utterance itself, so every seq up to
+  // the session's count is readable once the count is raised to cover it.
+  append(sessionId: string, count: number, utterance: Omit<Utterance, "seq">): Promise<Utterance>;
+  // Utterances after `cursor` up to `count`, at most `limit` of them. Stops at
+  // the first one not readable so a cursor never skips past it.
+  since(sessionId: string, cursor: number, count: number, limit: number): Promise<Utterance[]>;
+}
+
+export const CONVERSATIONS_URI = "voice://conversations";
+
+export function conversationUri(sessionId: string): string {
+  return `${CONVERSATIONS_URI}/${sessionId}`;
+}
+
+export function parseConversationUri(uri: string): string | null {
+  const prefix = `${CONVERSATIONS_URI}/`;
+  return uri.startsWith(prefix) && uri.length > prefix.length ? uri.slice(prefix.length) : null;
+}
+
+// Zero-padded so storage key order matches seq order
+function seqKey(seq: number): string {
+  return String(seq).padStart(6, "0");
+}
+
+export function createUtteranceQueue(storage: Storage, ttlMs: number): UtteranceQueue {
+  return {
+    async append(sessionId, count, utterance) {
+      for (let seq = count + 1;; seq++) {
+        const entry: Utterance = { seq, ...utterance };
+        if (await storage.compareAndSet(["utterances", sessionId, seqKey(seq)], null, entry, { expireIn: ttlMs })) {
+          return entry;
+        }
+      }
+    },
+
+    async since(sessionId, cursor, count, limit) {
+      const utterances: Utterance[] = [];
+      for (let seq = cursor + 1; seq <= count && utterances.length < limit; seq++) {
+        const entry = await storage.get<Utterance>(["utterances", sessionId, seqKey(seq)]);
+        if (!entry) {
+          break;
+        }
+        utterances.push(entry.value);
+      }
+      return utterances;
+    },
+  };
+}
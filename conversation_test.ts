@@ -0,0 +1,43 @@
+import assert from "node:assert/strict";
+import { conversationUri, createUtteranceQueue, parseConversationUri } from "./conversation.ts";
+import { createMemoryStorage } from "./storage.ts";
+
+const take = (text: string) => ({ text, createdAt: Date.now() });
+
+Deno.test("conversation uris", () => {
+  assert.equal(parseConversationUri(conversationUri("abc")), "abc");
+  assert.equal(parseConversationUri("voice://conversations/"), null);
+  assert.equal(parseConversationUri("voice://transcripts/abc"), null);
+});
+
+Deno.test("utterance queue", async (t) => {
+  const queue = createUtteranceQueue(createMemoryStorage(), 60_000);
+
+  await t.step("append numbers utterances from the session count", async () => {
+    assert.equal((await queue.append("s1", 0, take("one"))).seq, 1);
+    assert.equal((await queue.append("s1", 1, take("two"))).seq, 2);
+    // Each session counts on its own
+    assert.equal((await queue.append("s2", 0, take("other"))).seq, 1);
+  });
+
+  await t.step("concurrent appends claim different seqs", async () => {
+    const appended = await Promise.all([queue.append("s1", 2, take("a")), queue.append("s1", 2, take("b"))]);
+    assert.deepEqual(appended.map((utterance) => utterance.seq).sort(), [3, 4]);
+  });
+
+  await t.step("since reads after the cursor up to the count", async () => {
+    const texts = async (cursor: number, count: number, limit = 10) =>
+      (await queue.since("s1", cursor, count, limit)).map((utterance) => utterance.seq);
+    assert.deepEqual(await texts(0, 4), [1, 2, 3, 4]);
+    assert.deepEqual(await texts(2, 4), [3, 4]);
+    // Utterances past the count aren't visible yet
+    assert.deepEqual(await texts(0, 2), [1, 2]);
+    assert.deepEqual(await texts(0, 4, 3), [1, 2, 3]);
+    assert.deepEqual(await texts(4, 4), []);
+  });
+
+  await t.step("since stops at a seq that isn't readable", async () => {
+    await queue.append("s3", 1, take("second"));
+    assert.deepEqual(await queue.since("s3", 0, 2, 10), []);
+  });
+});
@@ -0,0 +1,339 @@
+/**
+ * Code dictation
+ *
+ * Opt-in post-processing that turns spoken programming phrases into code
+ * text: casing commands ("camel case user service" -> userService),
+ * spoken punctuation and brackets in English and Chinese ("open paren",
+ * "逗号", "换行"), "literal" escapes and a per-project vocabulary map.
+ */
+
+export type CaseStyle = "camel" | "pascal" | "snake" | "kebab" | "constant";
+
+// Which neighbours a symbol is written against without a space
+export type SymbolAttach = "none" | "left" | "right" | "both";
+
+export interface SymbolRule {
+  text: string;
+  attach: SymbolAttach;
+  // Quotes alternate between opening (attach right) and closing (attach left)
+  quote?: boolean;
+}
+
+export interface DictationRules {
+  // Spoken phrase -> symbol
+  symbols: Record<string, SymbolRule>;
+  // Spoken phrase -> replacement, e.g. "user service" -> "UserService"
+  vocabulary: Record<string, string>;
+}
+
+const CASE_PHRASES: Record<string, CaseStyle> = {
+  "camel case": "camel",
+  "camelcase": "camel",
+  "pascal case": "pascal",
+  "pascalcase": "pascal",
+  "snake case": "snake",
+  "kebab case": "kebab",
+  "constant case": "constant",
+  "screaming snake case": "constant",
+  "驼峰": "camel",
+  "小驼峰": "camel",
+  "大驼峰": "pascal",
+  "帕斯卡": "pascal",
+  "蛇形": "snake",
+  "下划线命名": "snake",
+  "短横线": "kebab",
+  "烤串": "kebab",
+  "常量命名": "constant",
+};
+
+// The next phrase is written out as spoken
+const LITERAL_PHRASES = ["literal", "字面", "原样"];
+
+// Ends the words a casing command applies to before the next punctuation
+const END_CASE_PHRASES = ["end case", "结束命名"];
+
+const symbol = (text: string, attach: SymbolAttach): SymbolRule => ({ text, attach });
+const quote = (text: string): SymbolRule => ({ text, attach: "none", quote: true });
+
+export const DEFAULT_SYMBOLS: Record<string, SymbolRule> = {
+  "open paren": symbol("(", "both"),
+  "open parenthesis": symbol("(", "both"),
+  "left paren": symbol("(", "both"),
+  "close paren": symbol(")", "left"),
+  "close parenthesis": symbol(")", "left"),
+  "right paren": symbol(")", "left"),
+  "open bracket": symbol("[", "both"),
+  "close bracket": symbol("]", "left"),
+  "open brace": symbol("{", "right"),
+  "open curly": symbol("{", "right"),
+  "close brace": symbol("}", "left"),
+  "close curly": symbol("}", "left"),
+  "comma": symbol(",", "left"),
+  "period": symbol(".", "left"),
+  "full stop": symbol(".", "left"),
+  "dot": symbol(".", "both"),
+  "colon": symbol(":", "left"),
+  "semicolon": symbol(";", "left"),
+  "new line": symbol("\n", "both"),
+  "newline": symbol("\n", "both"),
+  "equals": symbol("=", "none"),
+  "double equals": symbol("==", "none"),
+  "arrow": symbol("=>", "none"),
+  "plus": symbol("+", "none"),
+  "minus": symbol("-", "none"),
+  "less than": symbol("<", "none"),
+  "greater than": symbol(">", "none"),
+  "underscore": symbol("_", "both"),
+  "hyphen": symbol("-", "both"),
+  "dash": symbol("-", "both"),
+  "slash": symbol("/", "both"),
+  "backslash": symbol("\\", "both"),
+  "question mark": symbol("?", "left"),
+  "exclamation mark": symbol("!", "left"),
+  "quote": quote('"'),
+  "double quote": quote('"'),
+  "single quote": quote("'"),
+  "backtick": quote("`"),
+
+  "左括号": symbol("(", "both"),
+  "左圆括号": symbol("(", "both"),
+  "右括号": symbol(")", "left"),
+  "右圆括号": symbol(")", "left"),
+  "左方括号": symbol("[", "both"),
+  "右方括号": symbol("]", "left"),
+  "左花括号": symbol("{", "right"),
+  "左大括号": symbol("{", "right"),
+  "右花括号": symbol("}", "left"),
+  "右大括号": symbol("}", "left"),
+  "逗号": symbol(",", "left"),
+  "句号": symbol(".", "left"),
+  "点号": symbol(".", "both"),
+  "冒号": symbol(":", "left"),
+  "分号": symbol(";", "left"),
+  "换行": symbol("\n", "both"),
+  "等号": symbol("=", "none"),
+  "下划线": symbol("_", "both"),
+  "斜杠": symbol("/", "both"),
+  "问号": symbol("?", "left"),
+  "感叹号": symbol("!", "left"),
+  "引号": quote('"'),
+  "双引号": quote('"'),
+  "单引号": quote("'"),
+  "反引号": quote("`"),
+};
+
+export const DEFAULT_DICTATION_RULES: DictationRules = { symbols: DEFAULT_SYMBOLS, vocabulary: {} };
+
+// A latin word or number, or any other single character (one CJK
+// character, one punctuation mark)
+interface Token {
+  text: string;
+  key: string;
+  // Whitespace preceded the token in the transcript
+  spaced: boolean;
+  word: boolean;
+}
+
+// Latin, Cyrillic, ... letters and digits; CJK characters are tokens on their own
+const WORD = String.raw`(?:(?![\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}])[\p{L}\p{N}_])+`;
+const TOKEN_PATTERN = new RegExp(String.raw`(\s*)(${WORD}|\S)`, "gu");
+const WORD_PATTERN = new RegExp(`^${WORD}$`, "u");
+
+function tokenize(text: string): Token[] {
+  return Array.from(text.matchAll(TOKEN_PATTERN), (match) => ({
+    text: match[2],
+    key: match[2].toLowerCase(),
+    spaced: match[1].length > 0,
+    word: WORD_PATTERN.test(match[2]),
+  }));
+}
+
+type Rule =
+  | { kind: "symbol"; symbol: SymbolRule }
+  | { kind: "vocabulary"; text: string }
+  | { kind: "case"; style: CaseStyle }
+  | { kind: "literal" }
+  | { kind: "end" };
+
+interface Phrase {
+  keys: string[];
+  rule: Rule;
+}
+
+// Every spoken phrase, longest first so "double quote" beats "quote"
+function compilePhrases(rules: DictationRules): Phrase[] {
+  const phrases: Phrase[] = [];
+  const add = (spoken: string, rule: Rule) => {
+    const keys = tokenize(spoken).map((token) => token.key);
+    if (keys.length > 0) {
+      phrases.push({ keys, rule });
+    }
+  };
+
+  for (const [spoken, style] of Object.entries(CASE_PHRASES)) {
+    add(spoken, { kind: "case", style });
+  }
+  for (const spoken of LITERAL_PHRASES) {
+    add(spoken, { kind: "literal" });
+  }
+  for (const spoken of END_CASE_PHRASES) {
+    add(spoken, { kind: "end" });
+  }
+  for (const [spoken, rule] of Object.entries(rules.symbols)) {
+    add(spoken, { kind: "symbol", symbol: rule });
+  }
+  for (const [spoken, text] of Object.entries(rules.vocabulary)) {
+    add(spoken, { kind: "vocabulary", text });
+  }
+
+  return phrases.sort((a, b) => b.keys.length - a.keys.length);
+}
+
+function matchPhrase(phrases: Phrase[], tokens: Token[], start: number): Phrase | undefined {
+  return phrases.find((phrase) =>
+    start + phrase.keys.length <= tokens.length &&
+    phrase.keys.every((key, i) => tokens[start + i].key === key)
+  );
+}
+
+function applyCase(words: string[], style: CaseStyle): string {
+  const lower = words.map((word) => word.toLowerCase());
+  const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1);
+  switch (style) {
+    case "camel":
+      return lower.map((word, i) => (i === 0 ? word : capitalize(word))).join("");
+    case "pascal":
+      return lower.map(capitalize).join("");
+    case "snake":
+      return lower.join("_");
+    case "kebab":
+      return lower.join("-");
+    case "constant":
+      return lower.join("_").toUpperCase();
+  }
+}
+
+interface Piece {
+  text: string;
+  spaced: boolean;
+  attachLeft: boolean;
+  attachRight: boolean;
+}
+
+// Rewrite spoken programming phrases in a transcript into code text
+export function applyDictation(text: string, rules: DictationRules): string {
+  const phrases = compilePhrases(rules);
+  const tokens = tokenize(text);
+  const pieces: Piece[] = [];
+  let quoteOpen = false;
+
+  const push = (text: string, spaced: boolean, attach: SymbolAttach = "none") =>
+    pieces.push({
+      text,
+      spaced,
+      attachLeft: attach === "left" || attach === "both",
+      attachRight: attach === "right" || attach === "both",
+    });
+
+  let i = 0;
+  while (i < tokens.length) {
+    const phrase = matchPhrase(phrases, tokens, i);
+    const spaced = tokens[i].spaced;
+
+    if (!phrase) {
+      push(tokens[i].text, spaced);
+      i++;
+      continue;
+    }
+
+    const end = i + phrase.keys.length;
+    const { rule } = phrase;
+
+    if (rule.kind === "symbol") {
+      let attach = rule.symbol.attach;
+      if (rule.symbol.quote) {
+        attach = quoteOpen ? "left" : "right";
+        quoteOpen = !quoteOpen;
+      }
+      push(rule.symbol.text, spaced, attach);
+      i = end;
+    } else if (rule.kind === "vocabulary") {
+      push(rule.text, spaced);
+      i = end;
+    } else if (rule.kind === "literal") {
+      // Write the next phrase (or token) exactly as it was transcribed
+      const next = end < tokens.length ? matchPhrase(phrases, tokens, end) : undefined;
+      const stop = Math.min(tokens.length, end + (next?.keys.length ?? 1));
+      tokens.slice(end, stop).forEach((token, n) => push(token.text, n === 0 ? spaced : token.spaced));
+      i = stop;
+    } else if (rule.kind === "case") {
+      // Case the following words up to punctuation, another command or "end case"
+      const words: string[] = [];
+      let j = end;
+      while (j < tokens.length && tokens[j].word) {
+        const command = matchPhrase(phrases, tokens, j);
+        if (command && command.rule.kind !== "vocabulary") {
+          break;
+        }
+        words.push(tokens[j].text);
+        j++;
+      }
+      const terminator = j < tokens.length ? matchPhrase(phrases, tokens, j) : undefined;
+      if (terminator?.rule.kind === "end") {
+        j += terminator.keys.length;
+      }
+
+      if (words.length > 0) {
+        push(applyCase(words, rule.style), spaced);
+      } else {
+        tokens.slice(i, end).forEach((token) => push(token.text, token.spaced));
+      }
+      i = j;
+    } else {
+      // A stray "end case" has nothing to close
+      i = end;
+    }
+  }
+
+  return pieces.reduce((joined, piece, n) => {
+    if (n === 0) {
+      return piece.text;
+    }
+    const previous = pieces[n - 1];
+    const space = piece.spaced && !previous.attachRight && !piece.attachLeft;
+    return joined + (space ? " " : "") + piece.text;
+  }, "");
+}
+
+const ATTACH_VALUES: SymbolAttach[] = ["none", "left", "right", "both"];
+
+// Merge a JSON rule file ({ "symbols": {...}, "vocabulary": {...} }) over
+// the defaults. Symbols are either the text or { text, attach, quote }.
+export function parseDictationRules(json: string): DictationRules {
+  const parsed = JSON.parse(json);
+  const symbols: Record<string, SymbolRule> = { ...DEFAULT_SYMBOLS };
+  const vocabulary: Record<string, string> = {};
+
+  for (const [spoken, value] of Object.entries(parsed.symbols ?? {})) {
+    if (typeof value === "string") {
+      symbols[spoken] = symbol(value, "none");
+    } else if (
+      value && typeof value === "object" && typeof (value as SymbolRule).text === "string" &&
+      ATTACH_VALUES.includes((value as SymbolRule).attach ?? "none")
+    ) {
+      const rule = value as SymbolRule;
+      symbols[spoken] = { text: rule.text, attach: rule.attach ?? "none", quote: rule.quote === true };
+    } else {
+      throw new Error(`Invalid dictation symbol: ${spoken}`);
+    }
+  }
+
+  for (const [spoken, value] of Object.entries(parsed.vocabulary ?? {})) {
+    if (typeof value !== "string") {
+      throw new Error(`Invalid dictation vocabulary entry: ${spoken}`);
+    }
+    vocabulary[spoken] = value;
+  }
+
+  return { symbols, vocabulary };
+}
@@ -0,0 +1,69 @@
+import assert from "node:assert/strict";
+import { applyDictation, DEFAULT_DICTATION_RULES, parseDictationRules } from "./dictation.ts";
+
+const dictate = (text: string) => applyDictation(text, DEFAULT_DICTATION_RULES);
+
+Deno.test("applyDictation", async (t) => {
+  await t.step("casing commands", () => {
+    assert.equal(dictate("camel case user service"), "userService");
+    assert.equal(dictate("pascal case user service"), "UserService");
+    assert.equal(dictate("snake case max retry count"), "max_retry_count");
+    assert.equal(dictate("kebab case main menu"), "main-menu");
+    assert.equal(dictate("constant case max size"), "MAX_SIZE");
+  });
+
+  await t.step("casing stops at punctuation and end case", () => {
+    assert.equal(dictate("camel case get user open paren close paren"), "getUser()");
+    assert.equal(dictate("snake case user id end case equals five"), "user_id = five");
+  });
+
+  await t.step("spoken punctuation attaches to its neighbours", () => {
+    assert.equal(dictate("foo open paren a comma b close paren semicolon"), "foo(a, b);");
+    assert.equal(dictate("x dot y"), "x.y");
+    assert.equal(dictate("a double equals b"), "a == b");
+  });
+
+  await t.step("quotes alternate between opening and closing", () => {
+    assert.equal(dictate("quote hello world quote"), '"hello world"');
+    assert.equal(dictate("single quote a single quote"), "'a'");
+  });
+
+  await t.step("Chinese phrases", () => {
+    assert.equal(dictate("驼峰 user name"), "userName");
+    assert.equal(dictate("foo 左括号 右括号 分号"), "foo();");
+  });
+
+  await t.step("literal writes the next phrase as spoken", () => {
+    assert.equal(dictate("literal comma"), "comma");
+    assert.equal(dictate("a literal open paren b"), "a open paren b");
+  });
+
+  await t.step("a casing command without words is kept as text", () => {
+    assert.equal(dictate("camel case"), "camel case");
+  });
+
+  await t.step("vocabulary", () => {
+    const rules = { ...DEFAULT_DICTATION_RULES, vocabulary: { "react": "React", "use state": "useState" } };
+    assert.equal(applyDictation("import use state from react", rules), "import useState from React");
+  });
+});
+
+Deno.test("parseDictationRules", async (t) => {
+  await t.step("merges symbols over the defaults", () => {
+    const rules = parseDictationRules(JSON.stringify({
+      symbols: { "pipe": "|", "fat arrow": { text: "=>", attach: "none" } },
+      vocabulary: { "deno": "Deno" },
+    }));
+    assert.deepEqual(rules.symbols["pipe"], { text: "|", attach: "none" });
+    assert.deepEqual(rules.symbols["fat arrow"], { text: "=>", attach: "none", quote: false });
+    assert.deepEqual(rules.symbols["comma"], DEFAULT_DICTATION_RULES.symbols["comma"]);
+    assert.deepEqual(rules.vocabulary, { deno: "Deno" });
+  });
+
+  await t.step("rejects malformed entries", () => {
+    assert.throws(() => parseDictationRules('{"symbols":{"pipe":{"text":"|","attach":"up"}}}'), /pipe/);
+    assert.throws(() => parseDictationRules('{"symbols":{"pipe":3}}'), /pipe/);
+    assert.throws(() => parseDictationRules('{"vocabulary":{"deno":true}}'), /deno/);
+    assert.throws(() => parseDictationRules("not json"), SyntaxError);
+  });
+});
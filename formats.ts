@@ -0,0 +1,63 @@
+/**
+ * Transcript output formats
+ *
+ * Renders a finished transcription as plain text, timestamped segment
+ * lines, SubRip (SRT) or WebVTT subtitles.
+ */
+
+import type { TranscriptSegment } from "./segment.ts";
+
+export type OutputFormat = "text" | "segments" | "srt" | "vtt";
+
+export const OUTPUT_FORMATS: OutputFormat[] = ["text", "segments", "srt", "vtt"];
+
+// "HH:MM:SS<separator>mmm"
+function timestamp(ms: number, separator: string): string {
+  const pad = (value: number, width = 2) => String(value).padStart(width, "0");
+  const hours = Math.floor(ms / 3_600_000);
+  const minutes = Math.floor((ms % 3_600_000) / 60_000);
+  const seconds = Math.floor((ms % 60_000) / 1000);
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(ms % 1000, 3)}`;
+}
+
+// Subtitle cues skip segments the provider returned no text for
+function cues(segments: TranscriptSegment[]): TranscriptSegment[] {
+  return segments.filter((segment) => segment.text.trim());
+}
+
+export function renderSrt(segments: TranscriptSegment[]): string {
+  return cues(segments)
+    .map((segment, i) =>
+      `${i + 1}\n${timestamp(segment.startMs, ",")} --> ${timestamp(segment.endMs, ",")}\n${segment.text.trim()}\n`
+    )
+    .join("\n");
+}
+
+export function renderVtt(segments: TranscriptSegment[]): string {
+  const body = cues(segments)
+    .map((segment) => `${timestamp(segment.startMs, ".")} --> ${timestamp(segment.endMs, ".")}\n${segment.text.trim()}\n`)
+    .join("\n");
+  return `WEBVTT\n\n${body}`;
+}
+
+export function renderSegmentLines(segments: TranscriptSegment[]): string {
+  return cues(segments)
+    .map((segment) => `[${timestamp(segment.startMs, ".")} - ${timestamp(segment.endMs, ".")}] ${segment.text.trim()}`)
+    .join("\n");
+}
+
+// Render a result in the requested format; segments fall back to one
+// cue covering the whole text when a transcription has none
+export function renderTranscript(format: OutputFormat, text: string, segments: TranscriptSegment[] = []): string {
+  const timed = segments.length > 0 ? segments : [{ startMs: 0, endMs: 0, text }];
+  switch (format) {
+    case "segments":
+      return renderSegmentLines(timed);
+    case "srt":
+      return renderSrt(timed);
+    case "vtt":
+      return renderVtt(timed);
+    default:
+      return text;
+  }
+}
@@ -0,0 +1,40 @@
+import assert from "node:assert/strict";
+import { renderSegmentLines, renderSrt, renderTranscript, renderVtt } from "./formats.ts";
+
+const segments = [
+  { startMs: 0, endMs: 2500, text: " Hello there. " },
+  { startMs: 2500, endMs: 2600, text: "  " },
+  { startMs: 3_725_004, endMs: 3_727_010, text: "Goodbye." },
+];
+
+Deno.test("renderSrt numbers cues and skips empty segments", () => {
+  assert.equal(
+    renderSrt(segments),
+    "1\n00:00:00,000 --> 00:00:02,500\nHello there.\n\n2\n01:02:05,004 --> 01:02:07,010\nGoodbye.\n",
+  );
+});
+
+Deno.test("renderVtt", () => {
+  assert.equal(
+    renderVtt(segments),
+    "WEBVTT\n\n00:00:00.000 --> 00:00:02.500\nHello there.\n\n01:02:05.004 --> 01:02:07.010\nGoodbye.\n",
+  );
+});
+
+Deno.test("renderSegmentLines", () => {
+  assert.equal(
+    renderSegmentLines(segments),
+    "[00:00:00.000 - 00:00:02.500] Hello there.\n[01:02:05.004 - 01:02:07.010] Goodbye.",
+  );
+});
+
+Deno.test("renderTranscript", async (t) => {
+  await t.step("text ignores segments", () => {
+    assert.equal(renderTranscript("text", "Hello there. Goodbye.", segments), "Hello there. Goodbye.");
+  });
+
+  await t.step("falls back to one cue for the whole text", () => {
+    assert.equal(renderTranscript("srt", "Hi"), "1\n00:00:00,000 --> 00:00:00,000\nHi\n");
+    assert.equal(renderTranscript("segments", "Hi", []), "[00:00:00.000 - 00:00:00.000] Hi");
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Transcript history
+ *
+ * Keeps finished transcripts after their recording session is gone so the
+ * agent can re-read them as voice://transcripts/{id} MCP resources.
+ */
+
+import type { AudioEvent, SpeechEmotion } from "./sensevoice.ts";
+import type { Storage } from "./storage.ts";
+
+export interface Transcript {
+  id: string;
+  sessionId: string;
+  text: string;
+  createdAt: number;
+  durationMs?: number;
+  language?: string;
+  emotion?: SpeechEmotion;
+  event?: AudioEvent;
+  itn?: boolean;
+  provider: string;
+  model: string;
+  // Archived audio of the recording, when AUDIO_ARCHIVE is on
+  audioId?: string;
+  // Transcript whose audio this one was re-run from with retranscribe
+  retranscribedFrom?: string;
+}
+
+export interface TranscriptHistory {
+  add(entry: Omit<Transcript, "id" | "createdAt">): Promise<Transcript>;
+  get(id: string): Promise<Transcript | null>;
+  // Newest first
+  list(limit: number, cursor?: string): Promise<{ transcripts: Transcript[]; nextCursor?: string }>;
+  search(query: string, options: { limit: number; since?: number }): Promise<Transcript[]>;
+}
+
+export const TRANSCRIPTS_URI = "voice://transcripts";
+
+export function transcriptUri(id: string): string {
+  return `${TRANSCRIPTS_URI}/${id}`;
+}
+
+export function parseTranscriptUri(uri: string): string | null {
+  const prefix = `${TRANSCRIPTS_URI}/`;
+  return uri.startsWith(prefix) && uri.length > prefix.length ? uri.slice(prefix.length) : null;
+}
+
+// Time-ordered id so storage key order matches creation order
+function generateTranscriptId(createdAt: number): string {
+  return `${createdAt.toString(36).padStart(9, "0")}-${crypto.randomUUID().slice(0, 8)}`;
+}
+
+// How many entries a search scans at most
+const SEARCH_SCAN_LIMIT = 1000;
+
+export function createTranscriptHistory(storage: Storage, retentionMs: number): TranscriptHistory {
+  return {
+    async add(entry) {
+      const createdAt = Date.now();
+      const transcript: Transcript = { id: generateTranscriptId(createdAt), createdAt, ...entry };
+      await storage.set(["transcripts", transcript.id], transcript, { expireIn: retentionMs });
+      return transcript;
+    },
+
+    async get(id) {
+      const entry = await storage.get<Transcript>(["transcripts", id]);
+      return entry?.value ?? null;
+    },
+
+    async list(limit, cursor) {
+      const { values, cursor: nextCursor } = await storage.list<Transcript>(["transcripts"], {
+        reverse: true,
+        limit,
+        cursor,
+      });
+      return { transcripts: values, nextCursor };
+    },
+
+    async search(query, { limit, since }) {
+      const needle = query.trim().toLowerCase();
+      const matches: Transcript[] = [];
+      const { values } = await storage.list<Transcript>(["transcripts"], { reverse: true, limit: SEARCH_SCAN_LIMIT });
+
+      for (const transcript of values) {
+        if (since !== undefined && transcript.createdAt < since) {
+          break;
+        }
+        if (!needle || transcript.text.toLowerCase().includes(needle)) {
+          matches.push(transcript);
+          if (matches.length >= limit) {
+            break;
+          }
+        }
+      }
+
+      return matches;
+    },
+  };
+}
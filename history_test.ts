@@ -0,0 +1,65 @@
+import assert from "node:assert/strict";
+import {
+  createTranscriptHistory,
+  parseTranscriptUri,
+  type Transcript,
+  TRANSCRIPTS_URI,
+  transcriptUri,
+} from "./history.ts";
+import { createMemoryStorage } from "./storage.ts";
+
+const entry = (text: string) => ({ sessionId: "session", text, provider: "fake", model: "fake-1" });
+
+// Ids are time-ordered by the millisecond
+const tick = () => new Promise((resolve) => setTimeout(resolve, 2));
+
+Deno.test("transcript uris", () => {
+  assert.equal(transcriptUri("abc"), `${TRANSCRIPTS_URI}/abc`);
+  assert.equal(parseTranscriptUri(transcriptUri("abc")), "abc");
+  assert.equal(parseTranscriptUri(TRANSCRIPTS_URI), null);
+  assert.equal(parseTranscriptUri(`${TRANSCRIPTS_URI}/`), null);
+  assert.equal(parseTranscriptUri("voice://conversations/abc"), null);
+});
+
+Deno.test("transcript history", async (t) => {
+  const history = createTranscriptHistory(createMemoryStorage(), 60_000);
+  const added: Transcript[] = [];
+  for (const text of ["Open the README", "run the tests", "Deploy to staging"]) {
+    added.push(await history.add(entry(text)));
+    await tick();
+  }
+
+  await t.step("add stamps an id and creation time", async () => {
+    const [first] = added;
+    assert.ok(first.id && first.createdAt <= Date.now());
+    assert.deepEqual(await history.get(first.id), first);
+    assert.equal(await history.get("missing"), null);
+  });
+
+  await t.step("list pages newest first", async () => {
+    const page = await history.list(2);
+    assert.deepEqual(page.transcripts.map((transcript) => transcript.text), ["Deploy to staging", "run the tests"]);
+    const rest = await history.list(2, page.nextCursor);
+    assert.deepEqual(rest.transcripts.map((transcript) => transcript.text), ["Open the README"]);
+    assert.equal(rest.nextCursor, undefined);
+  });
+
+  await t.step("search matches case-insensitively, newest first", async () => {
+    const found = await history.search("THE", { limit: 10 });
+    assert.deepEqual(found.map((transcript) => transcript.text), ["run the tests", "Open the README"]);
+    assert.equal((await history.search("the", { limit: 1 })).length, 1);
+    assert.equal((await history.search("", { limit: 10 })).length, 3);
+  });
+
+  await t.step("search stops at `since`", async () => {
+    const found = await history.search("", { limit: 10, since: added[1].createdAt });
+    assert.deepEqual(found.map((transcript) => transcript.text), ["Deploy to staging", "run the tests"]);
+  });
+
+  await t.step("entries expire after the retention period", async () => {
+    const shortLived = createTranscriptHistory(createMemoryStorage(), 20);
+    const transcript = await shortLived.add(entry("soon gone"));
+    await new Promise((resolve) => setTimeout(resolve, 40));
+    assert.equal(await shortLived.get(transcript.id), null);
+  });
+});
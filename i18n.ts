@@ -0,0 +1,489 @@
+/**
+ * Localized messages
+ *
+ * Catalogs for the recording page, the status pages and the MCP tool
+ * descriptions and results, in English and Simplified Chinese. Pages pick a
+ * locale from ?lang= or Accept-Language; tools from their `locale` argument.
+ */
+
+export type Locale = "en" | "zh-CN";
+
+export const LOCALES: Locale[] = ["en", "zh-CN"];
+
+export interface Messages {
+  // Progress labels for each session status
+  status: {
+    waiting: string;
+    recording: string;
+    processing: string;
+    reviewing: string;
+    completed: string;
+    error: string;
+    abandoned: string;
+  };
+
+  // MCP tool results
+  result: {
+    openLink(recordUrl: string, sessionId: string): string;
+    conversationLink(recordUrl: string, sessionId: string): string;
+    pairing(qrCode: string, pairingUrl: string, code: string): string;
+    utterances(lines: string, cursor: number): string;
+    noNewUtterances(cursor: number): string;
+    conversationEnded(endedBy: "user" | "agent"): string;
+    conversationNotOpen: string;
+    retranscribed(text: string, originalText: string, model: string): string;
+    transcriptNotFound: string;
+    audioNotArchived: string;
+    audioDurationUnknown: string;
+    speechReady(url: string, queued: boolean): string;
+    speechFailed(error: string, code?: string): string;
+    expired: string;
+    failed(error: string, code?: string): string;
+    unknownError: string;
+    cancelled: string;
+    waitTimedOut(seconds: number, status: string): string;
+    notFinished(status: string): string;
+    pendingWithLink(pending: string, recordUrl: string, sessionId: string): string;
+    progress(label: string, seconds: number, recordUrl: string): string;
+    rateLimited(code: string, message: string): string;
+    noTranscripts: string;
+    usage(key: string, day: string, month: string): string;
+    usagePeriod(
+      period: "day" | "month",
+      usage: { sessions: number; uploads: number; audioSeconds: number; quota: number | null; resetsAt: string },
+    ): string;
+  };
+
+  // MCP tool, argument and resource descriptions
+  tools: {
+    voiceToText: string;
+    startRecording: string;
+    getResult: string;
+    waitForResult: string;
+    searchTranscripts: string;
+    getNewUtterances: string;
+    endConversation: string;
+    retranscribe: string;
+    textToSpeech: string;
+    getUsage: string;
+  };
+  args: {
+    timeout(defaultSeconds: number, maxSeconds: number): string;
+    sessionId: string;
+    format: string;
+    language: string;
+    model(defaultModel: string): string;
+    hotwords: string;
+    mode: string;
+    vocabulary: string;
+    locale: string;
+    review: string;
+    conversation: string;
+    cursor: string;
+    utteranceTimeout(maxSeconds: number): string;
+    transcriptId: string;
+    provider(defaultProvider: string): string;
+    retranscribeModel: string;
+    speechText(maxLength: number): string;
+    speechSessionId: string;
+    voice(defaultVoice: string): string;
+    speed: string;
+    query: string;
+    sinceMinutes: string;
+    limit(defaultLimit: number): string;
+  };
+  schema: {
+    text: string;
+    language: string;
+    itn: string;
+    edited: string;
+    errorCode: string;
+  };
+  resources: {
+    recentTitle: string;
+    recentDescription: string;
+    transcriptTitle: string;
+    conversationTitle: string;
+  };
+
+  // HTML pages
+  pages: {
+    invalidLinkTitle: string;
+    invalidLinkMessage: string;
+    expiredLinkTitle: string;
+    expiredLinkMessage: string;
+    usedLinkTitle: string;
+    usedLinkMessage: string;
+    tooManyAttemptsTitle: string;
+    tooManyAttemptsMessage: string;
+    landingMessage: string;
+  };
+  recorder: {
+    title: string;
+    subtitle: string;
+    ready: string;
+    resultLabel: string;
+    reviewLabel: string;
+    rerecord: string;
+    send: string;
+    utterancesLabel: string;
+    endConversation: string;
+    replyLabel: string;
+    hint: string;
+    languageHint: string;
+    hotwordsHint: string;
+    hotwordSeparator: string;
+    languageNames: Record<string, string>;
+    // Used by the page script
+    script: {
+      recording: string;
+      micDenied: string;
+      transcribing: string;
+      converting: string;
+      completed: string;
+      failed: string;
+      reviewing: string;
+      sending: string;
+      sent: string;
+      utteranceAdded: string;
+      ended: string;
+    };
+  };
+}
+
+const zhCN: Messages = {
+  status: {
+    waiting: "等待打开录音链接",
+    recording: "正在录音",
+    processing: "正在转写",
+    reviewing: "等待用户确认转写结果",
+    completed: "转写完成",
+    error: "转写失败",
+    abandoned: "已取消",
+  },
+
+  result: {
+    openLink: (recordUrl, sessionId) => `🎤 请打开此链接录音：${recordUrl}\n会话 ID：${sessionId}`,
+    conversationLink: (recordUrl, sessionId) =>
+      `🎙️ 连续对话已开始，请打开此链接并保持页面打开，每按一次说一句：${recordUrl}\n` +
+      `会话 ID：${sessionId}\n用 get-new-utterances 读取新的语句，用 end-voice-conversation 结束对话。`,
+    pairing: (qrCode, pairingUrl, code) => `📱 在手机上扫码，或用浏览器打开 ${pairingUrl}（配对码 ${code}）：\n${qrCode}`,
+    utterances: (lines, cursor) => `${lines}\n（cursor：${cursor}）`,
+    noNewUtterances: (cursor) => `暂无新的语句（cursor：${cursor}）`,
+    conversationEnded: (endedBy) => (endedBy === "agent" ? "对话已结束。" : "用户已结束对话。"),
+    conversationNotOpen: "没有找到进行中的连续对话。",
+    retranscribed: (text, originalText, model) => `🔁 重新转写（${model}）：\n${text}\n\n原结果：\n${originalText}`,
+    transcriptNotFound: "没有找到这条转写记录，可能已经过期。",
+    audioNotArchived: "这条转写记录没有保存录音（需要开启 AUDIO_ARCHIVE，且录音未过期）。",
+    audioDurationUnknown: "保存的录音不是 WAV，无法确定时长；配置了音频额度时不能重新转写。",
+    speechReady: (url, queued) => `🔊 语音已生成：${url}${queued ? "\n录音页面打开时会自动播放。" : ""}`,
+    speechFailed: (error, code) => (code ? `语音合成失败（${code}）：${error}` : `语音合成失败：${error}`),
+    expired: "会话已过期，请重试。",
+    failed: (error, code) => (code ? `转写失败（${code}）：${error}` : `转写失败：${error}`),
+    unknownError: "未知错误",
+    cancelled: "录音已取消。",
+    waitTimedOut: (seconds, status) => `等待超时（${seconds}秒，状态：${status}）`,
+    notFinished: (status) => `录音尚未完成（状态：${status}）`,
+    pendingWithLink: (pending, recordUrl, sessionId) => `${pending}。请打开此链接录音：${recordUrl}\n会话 ID：${sessionId}`,
+    progress: (label, seconds, recordUrl) => `${label}（${seconds}秒）：${recordUrl}`,
+    rateLimited: (code, message) => `已超出使用限制（${code}）：${message}`,
+    noTranscripts: "没有找到匹配的转写记录。",
+    usage: (key, day, month) => [`API Key：${key}`, day, month].join("\n"),
+    usagePeriod: (period, { sessions, uploads, audioSeconds, quota, resetsAt }) =>
+      `${period === "day" ? "今日" : "本月"}：会话 ${sessions} 个，上传 ${uploads} 次，音频 ${audioSeconds} 秒` +
+      `（${quota === null ? "不限额" : `额度 ${quota} 秒`}，${resetsAt} 重置）`,
+  },
+
+  tools: {
+    voiceToText: "🎤 语音转文字工具。返回录音链接，用户在浏览器打开录音后自动返回转写的文字。",
+    startRecording:
+      "🎤 创建录音会话并立即返回录音链接和会话 ID。请先把链接展示给用户，再用 wait-for-voice-result 或 get-voice-result 获取转写结果。",
+    getResult: "查询录音会话的当前状态，不等待。转写完成时返回文字。",
+    waitForResult: "等待录音会话完成并返回转写的文字，超时后返回当前状态。",
+    searchTranscripts: "🔍 搜索历史转写记录，可按关键词和时间范围过滤，用于回看之前说过的话而无需重新录音。",
+    getNewUtterances:
+      "🎙️ 读取连续对话中 cursor 之后的新语句，并返回新的 cursor。可用 timeout 等待下一句；状态为 ended 且没有新语句时对话结束。",
+    endConversation: "结束连续对话，录音页面将不再接受新的语句。",
+    retranscribe:
+      "🔁 用不同的转写服务、模型或语言重新转写一条已保存录音的历史记录，无需用户重新说一遍。新旧结果都保留在历史记录中。",
+    textToSpeech:
+      "🔊 把文字合成为语音并返回可播放的链接。传入 session_id 时，该会话的录音页面如果仍然打开，会自动播放这段语音。",
+    getUsage: "📊 查询当前 API Key 今日和本月的录音会话数、上传次数、音频时长及额度与限流设置。",
+  },
+  args: {
+    timeout: (defaultSeconds, maxSeconds) => `等待转写结果的最长秒数（默认 ${defaultSeconds}，最大 ${maxSeconds}）`,
+    sessionId: "start-voice-recording 返回的会话 ID",
+    format: "结果格式：text（纯文本，默认）、segments（带时间戳的分段）、srt 或 vtt 字幕",
+    language: "说话的语言：zh、en、ja，或 auto 自动识别（默认）",
+    model: (defaultModel) => `本次转写使用的模型，覆盖服务端配置（默认 ${defaultModel}）`,
+    hotwords: "热词：专有名词、术语等，提示模型优先识别",
+    mode: "plain（默认）或 code：代码口述模式，把“camel case user service”“左括号”“换行”等口述命令转成代码文本",
+    vocabulary: "code 模式下的项目词表：口述短语 → 替换文本，如 {\"user service\": \"UserService\"}",
+    locale: "工具结果的语言：en 或 zh-CN（默认使用服务端设置）",
+    review: "为 true 时，用户可以在发送前回放录音、重新录制或修改转写文字（默认 false）",
+    conversation: "为 true 时开启连续对话：录音页面保持打开，每次按下说话都追加一条语句，用 get-new-utterances 读取（默认 false）",
+    cursor: "上次返回的 cursor，只返回之后的语句（默认 0，即从头读取）",
+    utteranceTimeout: (maxSeconds) => `没有新语句时最多等待的秒数（默认 0 不等待，最大 ${maxSeconds}）`,
+    transcriptId: "要重新转写的记录 ID 或 voice://transcripts/{id} 地址",
+    provider: (defaultProvider) => `本次使用的转写服务（默认 ${defaultProvider}）`,
+    retranscribeModel: "本次使用的模型（默认取所选转写服务配置的模型）",
+    speechText: (maxLength) => `要朗读的文字（最多 ${maxLength} 个字符）`,
+    speechSessionId: "录音会话 ID：录音页面打开时自动播放这段语音",
+    voice: (defaultVoice) => `音色，覆盖服务端配置（默认 ${defaultVoice}）`,
+    speed: "语速，0.25 到 4（默认 1）",
+    query: "关键词（为空时返回最近的记录）",
+    sinceMinutes: "只搜索最近多少分钟内的记录",
+    limit: (defaultLimit) => `最多返回多少条（默认 ${defaultLimit}）`,
+  },
+  schema: {
+    text: "转写结果（按 format 渲染，不带任何前缀）",
+    language: "识别出的语言，如 zh、en、yue、ja、ko",
+    itn: "是否做了逆文本正则化（数字、标点）",
+    edited: "用户在确认前是否修改了转写文字（仅 review 模式）",
+    errorCode: "转写失败的类型：认证、额度/限流、音频无法识别、服务不可用、超时",
+  },
+  resources: {
+    recentTitle: "最近的转写记录",
+    recentDescription: "最近的转写记录列表，订阅后有新记录时会收到通知",
+    transcriptTitle: "转写记录",
+    conversationTitle: "连续对话",
+  },
+
+  pages: {
+    invalidLinkTitle: "无效的录音链接",
+    invalidLinkMessage: "找不到这个录音会话，请让 Agent 重新生成录音链接。",
+    expiredLinkTitle: "录音链接已过期",
+    expiredLinkMessage: "这个录音链接已经过期，请让 Agent 重新生成录音链接。",
+    usedLinkTitle: "录音链接已使用",
+    usedLinkMessage: "这个录音链接已经上传过录音，不能重复使用。",
+    tooManyAttemptsTitle: "尝试次数过多",
+    tooManyAttemptsMessage: "输入错误的配对码次数过多，请稍后再试。",
+    landingMessage: "这是一个语音转文字 MCP 服务。请在 OpenCode 中调用 start-voice-recording 获取录音链接。",
+  },
+  recorder: {
+    title: "语音转文字",
+    subtitle: "点击麦克风开始录音",
+    ready: "准备就绪",
+    resultLabel: "转写结果",
+    reviewLabel: "转写结果（可修改后再发送）",
+    rerecord: "🔁 重新录制",
+    send: "发送给 Agent",
+    utterancesLabel: "已发送的语句",
+    endConversation: "结束对话",
+    replyLabel: "🔊 语音回复",
+    hint: "按住空格键或点击麦克风录音",
+    languageHint: "语言",
+    hotwordsHint: "热词",
+    hotwordSeparator: "、",
+    languageNames: { zh: "中文", en: "英语", ja: "日语" },
+    script: {
+      recording: "正在录音...",
+      micDenied: "❌ 无法访问麦克风",
+      transcribing: "正在转写...",
+      converting: "转换格式中...",
+      completed: "✅ 转写完成",
+      failed: "❌ 转写失败",
+      reviewing: "请检查转写结果，确认无误后发送",
+      sending: "正在发送...",
+      sent: "✅ 已发送给 Agent",
+      utteranceAdded: "✅ 已发送，可以继续说下一句",
+      ended: "对话已结束",
+    },
+  },
+};
+
+const en: Messages = {
+  status: {
+    waiting: "Waiting for the recording link to be opened",
+    recording: "Recording",
+    processing: "Transcribing",
+    reviewing: "Waiting for the user to confirm the transcript",
+    completed: "Transcription complete",
+    error: "Transcription failed",
+    abandoned: "Cancelled",
+  },
+
+  result: {
+    openLink: (recordUrl, sessionId) => `🎤 Open this link to record: ${recordUrl}\nSession ID: ${sessionId}`,
+    conversationLink: (recordUrl, sessionId) =>
+      `🎙️ Conversation started. Open this link and keep the page open; each press records one utterance: ${recordUrl}\n` +
+      `Session ID: ${sessionId}\nRead new utterances with get-new-utterances and end with end-voice-conversation.`,
+    pairing: (qrCode, pairingUrl, code) =>
+      `📱 On a phone, scan this code or open ${pairingUrl} (pairing code ${code}):\n${qrCode}`,
+    utterances: (lines, cursor) => `${lines}\n(cursor: ${cursor})`,
+    noNewUtterances: (cursor) => `No new utterances (cursor: ${cursor})`,
+    conversationEnded: (endedBy) => (endedBy === "agent" ? "The conversation has ended." : "The user ended the conversation."),
+    conversationNotOpen: "No open conversation found for this session.",
+    retranscribed: (text, originalText, model) =>
+      `🔁 Retranscribed with ${model}:\n${text}\n\nOriginal:\n${originalText}`,
+    transcriptNotFound: "Transcript not found; it may have expired.",
+    audioNotArchived: "No recording was kept for this transcript (AUDIO_ARCHIVE must be on and the audio not expired).",
+    audioDurationUnknown:
+      "The kept recording isn't WAV, so its length is unknown; it can't be retranscribed while an audio quota is configured.",
+    speechReady: (url, queued) =>
+      `🔊 Speech ready: ${url}${queued ? "\nIt plays automatically on the recording page if that is open." : ""}`,
+    speechFailed: (error, code) => (code ? `Speech synthesis failed (${code}): ${error}` : `Speech synthesis failed: ${error}`),
+    expired: "The session has expired, please try again.",
+    failed: (error, code) => (code ? `Transcription failed (${code}): ${error}` : `Transcription failed: ${error}`),
+    unknownError: "Unknown error",
+    cancelled: "The recording was cancelled.",
+    waitTimedOut: (seconds, status) => `Timed out after ${seconds}s (status: ${status})`,
+    notFinished: (status) => `The recording is not finished yet (status: ${status})`,
+    pendingWithLink: (pending, recordUrl, sessionId) =>
+      `${pending}. Open this link to record: ${recordUrl}\nSession ID: ${sessionId}`,
+    progress: (label, seconds, recordUrl) => `${label} (${seconds}s): ${recordUrl}`,
+    rateLimited: (code, message) => `Usage limit exceeded (${code}): ${message}`,
+    noTranscripts: "No matching transcripts found.",
+    usage: (key, day, month) => [`API key: ${key}`, day, month].join("\n"),
+    usagePeriod: (period, { sessions, uploads, audioSeconds, quota, resetsAt }) =>
+      `${period === "day" ? "Today" : "This month"}: ${sessions} sessions, ${uploads} uploads, ${audioSeconds}s of audio` +
+      ` (${quota === null ? "no quota" : `quota ${quota}s`}, resets ${resetsAt})`,
+  },
+
+  tools: {
+    voiceToText: "🎤 Voice to text. Returns a recording link and, once the user has recorded in the browser, the transcript.",
+    startRecording:
+      "🎤 Create a recording session and return its link and session ID right away. Show the link to the user, then get the transcript with wait-for-voice-result or get-voice-result.",
+    getResult: "Check a recording session's current status without waiting. Returns the text once transcribed.",
+    waitForResult: "Wait for a recording session to finish and return the transcript, or its current status on timeout.",
+    searchTranscripts:
+      "🔍 Search earlier transcripts by keyword and time range, to look back at what was said without recording again.",
+    getNewUtterances:
+      "🎙️ Read the utterances after `cursor` in a conversation session and get the new cursor. Use timeout to wait for the next one; status ended with no new utterances means the conversation is over.",
+    endConversation: "End a conversation session; the recording page stops accepting utterances.",
+    retranscribe:
+      "🔁 Re-run a transcript's archived recording with a different provider, model or language, without asking the user to speak again. Both results stay in the history.",
+    textToSpeech:
+      "🔊 Turn text into speech and return a playable link. With session_id, the session's recording page plays it automatically if it is still open.",
+    getUsage:
+      "📊 Show today's and this month's sessions, uploads and audio seconds for the current API key, with its quotas and rate limits.",
+  },
+  args: {
+    timeout: (defaultSeconds, maxSeconds) =>
+      `Longest time to wait for the transcript, in seconds (default ${defaultSeconds}, max ${maxSeconds})`,
+    sessionId: "Session ID returned by start-voice-recording",
+    format: "Result format: text (plain text, default), segments (timestamped segments), srt or vtt subtitles",
+    language: "Spoken language: zh, en, ja, or auto to detect it (default)",
+    model: (defaultModel) => `Model for this transcription, overriding the server setting (default ${defaultModel})`,
+    hotwords: "Hotwords: names and terms the model should prefer",
+    mode:
+      'plain (default) or code: code dictation, turning spoken commands like "camel case user service", "open paren" or "new line" into code text',
+    vocabulary: 'Project vocabulary for code mode: spoken phrase -> replacement, e.g. {"user service": "UserService"}',
+    locale: "Language of the tool results: en or zh-CN (defaults to the server setting)",
+    review: "When true, the user can play back, re-record or edit the transcript before it is sent (default false)",
+    conversation:
+      "When true, start a conversation: the recording page stays open and each press-to-talk appends an utterance, read with get-new-utterances (default false)",
+    cursor: "The cursor returned last time; only later utterances are returned (default 0, from the start)",
+    utteranceTimeout: (maxSeconds) =>
+      `Seconds to wait when there are no new utterances (default 0, no waiting; max ${maxSeconds})`,
+    transcriptId: "Id of the transcript to re-run, or its voice://transcripts/{id} uri",
+    provider: (defaultProvider) => `Transcription provider for this run (default ${defaultProvider})`,
+    retranscribeModel: "Model for this run (defaults to the chosen provider's configured model)",
+    speechText: (maxLength) => `Text to speak (up to ${maxLength} characters)`,
+    speechSessionId: "Recording session ID; its recording page plays the speech if it is open",
+    voice: (defaultVoice) => `Voice, overriding the server setting (default ${defaultVoice})`,
+    speed: "Speaking speed, 0.25 to 4 (default 1)",
+    query: "Keywords (empty returns the most recent transcripts)",
+    sinceMinutes: "Only search transcripts from the last this many minutes",
+    limit: (defaultLimit) => `Maximum number of results (default ${defaultLimit})`,
+  },
+  schema: {
+    text: "Transcript rendered in the requested format, without any prefix",
+    language: "Detected language, e.g. zh, en, yue, ja, ko",
+    itn: "Whether inverse text normalization (numbers, punctuation) was applied",
+    edited: "Whether the user changed the transcript before confirming it (review mode only)",
+    errorCode: "Kind of failure: credentials, quota/rate limit, unrecognizable audio, provider down, timeout",
+  },
+  resources: {
+    recentTitle: "Recent transcripts",
+    recentDescription: "List of recent transcripts; subscribers are notified when a new one is added",
+    transcriptTitle: "Transcript",
+    conversationTitle: "Conversation",
+  },
+
+  pages: {
+    invalidLinkTitle: "Invalid recording link",
+    invalidLinkMessage: "This recording session doesn't exist. Ask the agent for a new recording link.",
+    expiredLinkTitle: "Recording link expired",
+    expiredLinkMessage: "This recording link has expired. Ask the agent for a new recording link.",
+    usedLinkTitle: "Recording link already used",
+    usedLinkMessage: "A recording was already uploaded with this link; it can't be used again.",
+    tooManyAttemptsTitle: "Too many attempts",
+    tooManyAttemptsMessage: "Too many unknown pairing codes were tried. Please wait a few minutes and try again.",
+    landingMessage: "This is a voice-to-text MCP server. Call start-voice-recording in OpenCode to get a recording link.",
+  },
+  recorder: {
+    title: "Voice to Text",
+    subtitle: "Click the microphone to start recording",
+    ready: "Ready",
+    resultLabel: "Transcript",
+    reviewLabel: "Transcript (edit before sending)",
+    rerecord: "🔁 Re-record",
+    send: "Send to agent",
+    utterancesLabel: "Sent utterances",
+    endConversation: "End conversation",
+    replyLabel: "🔊 Spoken reply",
+    hint: "Hold the space bar or click the microphone to record",
+    languageHint: "Language",
+    hotwordsHint: "Hotwords",
+    hotwordSeparator: ", ",
+    languageNames: { zh: "Chinese", en: "English", ja: "Japanese" },
+    script: {
+      recording: "Recording...",
+      micDenied: "❌ Can't access the microphone",
+      transcribing: "Transcribing...",
+      converting: "Converting...",
+      completed: "✅ Transcription complete",
+      failed: "❌ Transcription failed",
+      reviewing: "Check the transcript, then send it",
+      sending: "Sending...",
+      sent: "✅ Sent to the agent",
+      utteranceAdded: "✅ Sent. Keep talking for the next one",
+      ended: "Conversation ended",
+    },
+  },
+};
+
+const CATALOGS: Record<Locale, Messages> = { en, "zh-CN": zhCN };
+
+export function messagesFor(locale: Locale): Messages {
+  return CATALOGS[locale];
+}
+
+// Map a language tag (zh, zh-Hans-CN, en-US, ...) to a supported locale
+export function parseLocale(tag: string | null | undefined): Locale | null {
+  const language = tag?.trim().toLowerCase().split(/[-_]/)[0];
+  if (language === "zh") {
+    return "zh-CN";
+  }
+  if (language === "en") {
+    return "en";
+  }
+  return null;
+}
+
+// Locale for a page: ?lang= first, then the best Accept-Language match
+export function negotiateLocale(req: Request, fallback: Locale): Locale {
+  const requested = parseLocale(new URL(req.url).searchParams.get("lang"));
+  if (requested) {
+    return requested;
+  }
+
+  const ranges = (req.headers.get("Accept-Language") ?? "")
+    .split(",")
+    .map((range, index) => {
+      const [tag, ...params] = range.trim().split(";");
+      const q = params.map((param) => param.trim().match(/^q=([\d.]+)$/)?.[1]).find(Boolean);
+      return { tag, q: q === undefined ? 1 : Number(q), index };
+    })
+    .filter(({ tag, q }) => tag && q > 0)
+    .sort((a, b) => b.q - a.q || a.index - b.index);
+
+  for (const { tag } of ranges) {
+    const locale = parseLocale(tag);
+    if (locale) {
+      return locale;
+    }
+  }
+  return fallback;
+}
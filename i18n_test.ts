@@ -0,0 +1,45 @@
+import assert from "node:assert/strict";
+import { LOCALES, messagesFor, negotiateLocale, parseLocale } from "./i18n.ts";
+
+const page = (query = "", acceptLanguage?: string) =>
+  new Request(`http://localhost/record/abc${query}`, {
+    headers: acceptLanguage ? { "Accept-Language": acceptLanguage } : {},
+  });
+
+Deno.test("parseLocale", () => {
+  assert.equal(parseLocale("zh"), "zh-CN");
+  assert.equal(parseLocale("zh-Hans-CN"), "zh-CN");
+  assert.equal(parseLocale("zh_TW"), "zh-CN");
+  assert.equal(parseLocale(" EN-us "), "en");
+  assert.equal(parseLocale("fr"), null);
+  assert.equal(parseLocale(null), null);
+});
+
+Deno.test("negotiateLocale", async (t) => {
+  await t.step("?lang= wins", () => {
+    assert.equal(negotiateLocale(page("?lang=en", "zh-CN"), "zh-CN"), "en");
+  });
+
+  await t.step("an unknown ?lang= falls through to Accept-Language", () => {
+    assert.equal(negotiateLocale(page("?lang=fr", "en-GB"), "zh-CN"), "en");
+  });
+
+  await t.step("Accept-Language by quality, then order", () => {
+    assert.equal(negotiateLocale(page("", "en;q=0.5, zh-CN;q=0.8"), "en"), "zh-CN");
+    assert.equal(negotiateLocale(page("", "en, zh"), "zh-CN"), "en");
+    assert.equal(negotiateLocale(page("", "fr-FR, de;q=0.9, en;q=0.1"), "zh-CN"), "en");
+    assert.equal(negotiateLocale(page("", "en;q=0, zh;q=0.2"), "en"), "zh-CN");
+  });
+
+  await t.step("falls back without a match", () => {
+    assert.equal(negotiateLocale(page("", "fr, de"), "zh-CN"), "zh-CN");
+    assert.equal(negotiateLocale(page(), "en"), "en");
+  });
+});
+
+Deno.test("every locale has every message", () => {
+  const keys = (locale: (typeof LOCALES)[number]) => Object.keys(messagesFor(locale)).sort();
+  for (const locale of LOCALES) {
+    assert.deepEqual(keys(locale), keys("en"), locale);
+  }
+});
@@ -0,0 +1,48 @@
+/**
+ * Structured logging
+ *
+ * One JSON object per line on stdout/stderr, so log drains (Deno Deploy,
+ * journald, Loki, ...) can filter on fields like sessionId and status.
+ */
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3 };
+
+export const LOG_LEVELS = Object.keys(LEVEL_ORDER) as LogLevel[];
+
+let minLevel: LogLevel = "info";
+
+export function setLogLevel(level: LogLevel): void {
+  minLevel = level;
+}
+
+export function log(level: LogLevel, message: string, fields: Record<string, unknown> = {}): void {
+  if (LEVEL_ORDER[level] < LEVEL_ORDER[minLevel]) {
+    return;
+  }
+  const line = JSON.stringify({ time: new Date().toISOString(), level, msg: message, ...fields });
+  if (level === "error") {
+    console.error(line);
+  } else if (level === "warn") {
+    console.warn(line);
+  } else {
+    console.log(line);
+  }
+}
+
+export const logger = {
+  debug: (message: string, fields?: Record<string, unknown>) => log("debug", message, fields),
+  info: (message: string, fields?: Record<string, unknown>) => log("info", message, fields),
+  warn: (message: string, fields?: Record<string, unknown>) => log("warn", message, fields),
+  error: (message: string, fields?: Record<string, unknown>) => log("error", message, fields),
+};
+
+// Log fields describing a caught error
+export function errorFields(error: unknown): Record<string, unknown> {
+  if (!(error instanceof Error)) {
+    return { error: String(error) };
+  }
+  const code = (error as { code?: unknown }).code;
+  return { error: error.message, errorName: error.name, ...(typeof code === "string" ? { errorCode: code } : {}) };
+}
@@ -1,34 +1,320 @@
 /**
  * OpenCode Voice - MCP Server with Web Recording
  * 
- * Provides voice-to-text functionality via SiliconFlow API
+ * Provides voice-to-text functionality via a pluggable transcription provider
+ * (SiliconFlow by default)
  * Deployed on Deno Deploy with MCP HTTP Streamable transport
  */
 
-// Open Deno KV for persistent storage
-const kv = await Deno.openKv();
+import {
+  createTranscriptionProvider,
+  PROVIDER_NAMES,
+  type ProviderName,
+  TRANSCRIPTION_LANGUAGES,
+  TranscriptionError,
+  type TranscriptionErrorCode,
+  type TranscriptionLanguage,
+  type TranscriptionOptions,
+  type TranscriptionProvider,
+  type TranscriptionResult,
+} from "./transcription.ts";
+import {
+  broadcast,
+  createMCPTransport,
+  type MCPRequest,
+  type MCPRequestContext,
+  type MCPResponse,
+  negotiateProtocolVersion,
+  sendToSession,
+} from "./transport.ts";
+import {
+  createTranscriptHistory,
+  parseTranscriptUri,
+  type Transcript,
+  TRANSCRIPTS_URI,
+  transcriptUri,
+} from "./history.ts";
+import {
+  conversationUri,
+  CONVERSATIONS_URI,
+  createUtteranceQueue,
+  parseConversationUri,
+  type Utterance,
+} from "./conversation.ts";
+import { createSpeechProvider } from "./speech.ts";
+import { createAudioStore } from "./audiostore.ts";
+import { createPairingCodes } from "./pairing.ts";
+import { encodeQrCode, renderQrCode } from "./qrcode.ts";
+import { type AudioInfo, AudioValidationError, readBodyWithLimit, validateAudio } from "./audio.ts";
+import { decodeWav, normalizePcm, normalizeWav, TARGET_SAMPLE_RATE } from "./normalize.ts";
+import { handleTranscriptionStream } from "./stream.ts";
+import { type SegmentedTranscription, transcribeSegmented, type TranscriptSegment } from "./segment.ts";
+import { withResilience, withSpeechResilience } from "./resilience.ts";
+import { errorFields, logger, setLogLevel } from "./log.ts";
+import { type Config, ConfigError, loadConfig, redactConfig, requestIp, requestOrigin } from "./config.ts";
+import {
+  audioDuration,
+  instrumentProvider,
+  instrumentSpeechProvider,
+  mcpRequestsTotal,
+  renderMetrics,
+  sessionsTotal,
+  uploadsTotal,
+  waitTimeoutsTotal,
+} from "./metrics.ts";
+import { openStorage } from "./storage.ts";
+import { applyDictation, DEFAULT_DICTATION_RULES, type DictationRules, parseDictationRules } from "./dictation.ts";
+import { OUTPUT_FORMATS, type OutputFormat, renderTranscript } from "./formats.ts";
+import {
+  ANONYMOUS_CLIENT,
+  authenticate,
+  type Client,
+  createLinkSigner,
+  type LinkVerification,
+} from "./auth.ts";
+import { createRateLimiter, type Period, RateLimitError, type Usage } from "./ratelimit.ts";
+import { type Locale, LOCALES, messagesFor, negotiateLocale, parseLocale } from "./i18n.ts";
+import { generateMessagePage, generateRecordingPage, htmlResponse } from "./pages.ts";
+
+// Every setting, from the environment and CONFIG_FILE; invalid settings
+// stop the server before it listens
+let config: Config;
+try {
+  config = await loadConfig();
+} catch (error) {
+  if (error instanceof ConfigError) {
+    logger.error("invalid configuration", { problems: error.problems });
+    Deno.exit(1);
+  }
+  throw error;
+}
+setLogLevel(config.logLevel);
+
+// Sessions, history and counters live in the backend selected by
+// STORAGE_BACKEND: Deno KV (default), memory, or a SQLite file at STORAGE_PATH
+const storage = await openStorage(config.storage.backend, config.storage.path);
+
+// Speech-to-text backend, selected by TRANSCRIPTION_PROVIDER, with timeouts,
+// retries for transient failures and a circuit breaker around every call.
+// Latency and outcome of each call go to /metrics.
+const provider = instrumentProvider(withResilience(createTranscriptionProvider(config.provider), config.resilience));
+
+// Text-to-speech backend for the text-to-speech tool, selected by TTS_PROVIDER,
+// with the same timeouts, retries, circuit breaker and metrics
+const speech = instrumentSpeechProvider(withSpeechResilience(createSpeechProvider(config.speech), config.resilience));
+
+// Synthesized replies served from /api/audio/:id for TTS_AUDIO_TTL_SECONDS
+const audioStore = createAudioStore(storage, "audio");
+
+// Recordings kept for retranscribe when AUDIO_ARCHIVE is on; never served over HTTP
+const recordingArchive = createAudioStore(storage, "recordings");
+
+// Takes waiting in review, moved to the archive once the user confirms them
+const reviewTakes = createAudioStore(storage, "review-takes");
+const pairingCodes = createPairingCodes(storage);
+
+const startedAt = Date.now();
+
+// Finished transcripts, kept for HISTORY_RETENTION_DAYS (default 7)
+const history = createTranscriptHistory(storage, config.historyRetentionMs);
+
+// Conversation utterances, kept as long as the history entries they mirror
+const utterances = createUtteranceQueue(storage, config.historyRetentionMs);
+
+// Code dictation rules: built-in spoken punctuation and casing commands,
+// extended by the symbols and vocabulary in DICTATION_RULES_FILE
+const dictationRules: DictationRules = config.dictationRulesFile
+  ? parseDictationRules(await Deno.readTextFile(config.dictationRulesFile))
+  : DEFAULT_DICTATION_RULES;
+
+// API keys accepted on /mcp; auth is off when MCP_API_KEYS is empty
+const apiKeys = config.auth.apiKeys;
+
+// Per-API-key and per-IP limits on session creation and uploads, and
+// daily/monthly audio-seconds quotas per API key
+const rateLimiter = createRateLimiter(storage, config.rateLimits);
+
+// Quotas are charged by duration, which is known for WAV only, so other
+// containers are refused while one is configured
+const audioQuotaEnabled = config.rateLimits.dailyAudioSeconds !== null ||
+  config.rateLimits.monthlyAudioSeconds !== null;
+
+// Signs the /record/ links handed to the agent
+const linkSigner = createLinkSigner(storage, config.auth.recordLinkSecret);
+
+// Origins allowed to call the API cross-origin ("*" for any)
+const allowedOrigins = config.corsAllowedOrigins;
 
 // Types
 interface Session {
   id: string;
   createdAt: number;
-  status: "waiting" | "recording" | "processing" | "completed" | "error";
+  // "reviewing": transcribed, waiting for the user to confirm or re-record
+  status: "waiting" | "recording" | "processing" | "reviewing" | "completed" | "error" | "abandoned";
+  // The draft transcript while reviewing, the final one once completed
   result?: string;
   error?: string;
+  // Set when the provider call failed with a classified error
+  errorCode?: TranscriptionErrorCode;
+  transcriptId?: string;
+  // Per-segment timestamps of the result
+  segments?: TranscriptSegment[];
+  // Language, emotion, audio event and ITN flag reported with the result
+  metadata?: TranscriptMetadata;
+  options?: RecordingOptions;
+  // API key the session was created with; its uploads and audio count against it
+  client?: string;
+  // Duration of the transcribed recording, kept for the history entry written on confirm
+  durationMs?: number;
+  // Review sessions with AUDIO_ARCHIVE on: id of the take held in
+  // reviewTakes, which becomes its archive id once confirmed
+  takeId?: string;
+  // Whether the user changed the transcript before confirming it
+  edited?: boolean;
+  // Conversation sessions: utterances appended so far
+  utteranceCount?: number;
+  // Conversation sessions: which side ended it
+  endedBy?: "user" | "agent";
+  // MCP session that started a conversation; new utterances are pushed to it
+  mcpSessionId?: string;
+  // Spoken replies for the recording page to play, newest last
+  replies?: SpeechReply[];
+  replyCount?: number;
+}
+
+// A text-to-speech reply queued for a session's recording page
+interface SpeechReply {
+  seq: number;
+  audioId: string;
+  createdAt: number;
+}
+
+// Replies kept on a session; the page only needs the ones it hasn't played
+const MAX_SESSION_REPLIES = 20;
+
+type TranscriptMetadata = Omit<TranscriptionResult, "text">;
+
+// Transcription choices passed through the recording tools
+interface RecordingOptions {
+  language?: TranscriptionLanguage;
+  model?: string;
+  hotwords?: string[];
+  format?: OutputFormat;
+  // "code" rewrites spoken programming phrases after transcription
+  mode?: DictationMode;
+  // Per-project spoken phrase -> replacement map for code mode
+  vocabulary?: Record<string, string>;
+  // Language of the tool results
+  locale?: Locale;
+  // Let the user play back, re-record and edit before the result is sent
+  review?: boolean;
+  // Keep the page open for many utterances instead of one result
+  conversation?: boolean;
 }
 
-interface MCPRequest {
-  jsonrpc: "2.0";
-  id?: number | string;
-  method: string;
-  params?: Record<string, unknown>;
+type DictationMode = "plain" | "code";
+const DICTATION_MODES: DictationMode[] = ["plain", "code"];
+
+// The provider-facing part of the options (everything but the output format)
+function transcriptionOptionsFor(options: RecordingOptions = {}): TranscriptionOptions {
+  return { language: options.language, model: options.model, hotwords: options.hotwords };
 }
 
-interface MCPResponse {
-  jsonrpc: "2.0";
-  id?: number | string;
-  result?: unknown;
-  error?: { code: number; message: string; data?: unknown };
+const MAX_HOTWORDS = 50;
+const MAX_HOTWORD_LENGTH = 64;
+const MAX_VOCABULARY_ENTRIES = 200;
+
+// Validate the recording tool arguments; returns a message for the first bad one
+function parseRecordingOptions(args: Record<string, unknown>): RecordingOptions | string {
+  const options: RecordingOptions = {};
+
+  if (args.language !== undefined) {
+    if (!TRANSCRIPTION_LANGUAGES.includes(args.language as TranscriptionLanguage)) {
+      return `language must be one of: ${TRANSCRIPTION_LANGUAGES.join(", ")}`;
+    }
+    options.language = args.language as TranscriptionLanguage;
+  }
+
+  if (args.model !== undefined) {
+    if (typeof args.model !== "string" || !args.model.trim()) {
+      return "model must be a non-empty string";
+    }
+    options.model = args.model.trim();
+  }
+
+  if (args.hotwords !== undefined) {
+    // A comma-separated string is accepted as well as an array
+    const words = typeof args.hotwords === "string" ? args.hotwords.split(/[,，]/) : args.hotwords;
+    if (!Array.isArray(words) || words.some((word) => typeof word !== "string")) {
+      return "hotwords must be an array of strings";
+    }
+    const hotwords = words.map((word: string) => word.trim()).filter(Boolean);
+    if (hotwords.length > MAX_HOTWORDS || hotwords.some((word) => word.length > MAX_HOTWORD_LENGTH)) {
+      return `hotwords accepts at most ${MAX_HOTWORDS} words of up to ${MAX_HOTWORD_LENGTH} characters`;
+    }
+    if (hotwords.length > 0) {
+      options.hotwords = hotwords;
+    }
+  }
+
+  if (args.format !== undefined) {
+    if (!OUTPUT_FORMATS.includes(args.format as OutputFormat)) {
+      return `format must be one of: ${OUTPUT_FORMATS.join(", ")}`;
+    }
+    options.format = args.format as OutputFormat;
+  }
+
+  if (args.mode !== undefined) {
+    if (!DICTATION_MODES.includes(args.mode as DictationMode)) {
+      return `mode must be one of: ${DICTATION_MODES.join(", ")}`;
+    }
+    options.mode = args.mode as DictationMode;
+  }
+
+  if (args.vocabulary !== undefined) {
+    const entries = typeof args.vocabulary === "object" && args.vocabulary !== null && !Array.isArray(args.vocabulary)
+      ? Object.entries(args.vocabulary)
+      : null;
+    if (!entries || entries.some(([, value]) => typeof value !== "string")) {
+      return "vocabulary must be an object mapping spoken phrases to replacements";
+    }
+    if (entries.length > MAX_VOCABULARY_ENTRIES) {
+      return `vocabulary accepts at most ${MAX_VOCABULARY_ENTRIES} entries`;
+    }
+    options.vocabulary = Object.fromEntries(entries) as Record<string, string>;
+  }
+
+  if (args.locale !== undefined) {
+    const locale = typeof args.locale === "string" ? parseLocale(args.locale) : null;
+    if (!locale) {
+      return `locale must be one of: ${LOCALES.join(", ")}`;
+    }
+    options.locale = locale;
+  }
+
+  if (args.review !== undefined) {
+    if (typeof args.review !== "boolean") {
+      return "review must be a boolean";
+    }
+    if (args.review) {
+      options.review = true;
+    }
+  }
+
+  if (args.conversation !== undefined) {
+    if (typeof args.conversation !== "boolean") {
+      return "conversation must be a boolean";
+    }
+    if (args.conversation) {
+      options.conversation = true;
+    }
+  }
+
+  if (options.conversation && options.review) {
+    return "review is not available in conversation mode";
+  }
+
+  return options;
 }
 
 // Generate unique session ID
@@ -36,51 +322,863 @@ function generateSessionId(): string {
   return crypto.randomUUID();
 }
 
-// KV-based session storage
+const SESSION_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+function isValidSessionId(id: string): boolean {
+  return SESSION_ID_PATTERN.test(id);
+}
+
+// Legal Session.status transitions
+// Conversation sessions never pass through "processing": ending one moves it
+// straight from "waiting" or "recording" to "completed".
+const SESSION_TRANSITIONS: Record<Session["status"], Session["status"][]> = {
+  waiting: ["recording", "processing", "completed", "abandoned"],
+  recording: ["processing", "completed", "abandoned"],
+  processing: ["completed", "reviewing", "error"],
+  // Confirming claims the session through "processing"; re-recording goes back to "recording"
+  reviewing: ["recording", "processing", "abandoned"],
+  completed: [],
+  error: [],
+  abandoned: [],
+};
+
+// Recording sessions, kept in storage for SESSION_TTL_SECONDS
+const SESSION_TTL = config.sessions.ttlMs;
+
+// An ended conversation is kept as long as its utterances so they stay
+// readable through the conversation resource
+function sessionTtl(session: Session): number {
+  const ended = session.status !== "waiting" && session.status !== "recording";
+  return session.options?.conversation && ended ? Math.max(SESSION_TTL, config.historyRetentionMs) : SESSION_TTL;
+}
+
 async function saveSession(session: Session): Promise<void> {
-  await kv.set(["sessions", session.id], session, { expireIn: 5 * 60 * 1000 });
+  await storage.set(["sessions", session.id], session, { expireIn: sessionTtl(session) });
 }
 
 async function getSession(id: string): Promise<Session | null> {
-  const result = await kv.get<Session>(["sessions", id]);
-  return result.value;
+  const entry = await storage.get<Session>(["sessions", id]);
+  return entry?.value ?? null;
+}
+
+// A session belongs to the API key that created it: other keys can't read
+// its result, act on it or get a link for it
+function ownsSession(session: Session, context: MCPRequestContext): boolean {
+  return (session.client ?? ANONYMOUS_CLIENT) === (context.client?.key ?? ANONYMOUS_CLIENT);
+}
+
+// getSession for a tool call; another key's session reads as missing
+async function getOwnSession(id: string, context: MCPRequestContext): Promise<Session | null> {
+  const session = await getSession(id);
+  return session && ownsSession(session, context) ? session : null;
 }
 
 async function deleteSession(id: string): Promise<void> {
-  await kv.delete(["sessions", id]);
+  await storage.delete(["sessions", id]);
+}
+
+// Atomically move a session to a new status, applying `changes` on the way.
+// Returns null when the session is gone, not in the expected `from` status,
+// or the transition is not legal from its current status, so concurrent
+// writers can't overwrite each other.
+async function transitionSession(
+  id: string,
+  status: Session["status"],
+  changes: Partial<Session> = {},
+  from?: Session["status"],
+): Promise<Session | null> {
+  while (true) {
+    const entry = await storage.get<Session>(["sessions", id]);
+    if (!entry || !SESSION_TRANSITIONS[entry.value.status].includes(status)) {
+      return null;
+    }
+    if (from !== undefined && entry.value.status !== from) {
+      return null;
+    }
+
+    const session: Session = { ...entry.value, ...changes, status };
+    if (await storage.compareAndSet(["sessions", id], entry.version, session, { expireIn: sessionTtl(session) })) {
+      if (status === "completed" || status === "error" || status === "abandoned") {
+        sessionsTotal.inc({ status });
+      }
+      logger.info("session status changed", { sessionId: id, from: entry.value.status, status });
+      return session;
+    }
+  }
 }
 
-// Call SiliconFlow API for transcription
-async function transcribeAudio(audioData: Uint8Array): Promise<string> {
-  const apiKey = Deno.env.get("SILICONFLOW_API_KEY");
-  if (!apiKey) {
-    throw new Error("SILICONFLOW_API_KEY not configured");
+// Atomically apply `update` to a session without changing its status; every
+// write renews the TTL. Returns null when the session is gone or `update`
+// returns null.
+async function updateSession(
+  id: string,
+  update: (session: Session) => Partial<Session> | null,
+): Promise<Session | null> {
+  while (true) {
+    const entry = await storage.get<Session>(["sessions", id]);
+    const changes = entry ? update(entry.value) : null;
+    if (!entry || !changes) {
+      return null;
+    }
+
+    const session: Session = { ...entry.value, ...changes };
+    if (await storage.compareAndSet(["sessions", id], entry.version, session, { expireIn: sessionTtl(session) })) {
+      return session;
+    }
   }
+}
+
+// updateSession for a session that is still open for recording; null once
+// it has ended or expired
+function updateOpenSession(id: string, update: (session: Session) => Partial<Session>): Promise<Session | null> {
+  return updateSession(id, (session) =>
+    session.status === "waiting" || session.status === "recording" ? update(session) : null
+  );
+}
+
+// Public origin the recording links point at: PUBLIC_BASE_URL, otherwise
+// the origin the request came in on (behind a proxy when TRUST_PROXY is set)
+function baseUrlFor(req: Request): string {
+  return config.publicBaseUrl ?? requestOrigin(req, config.trustProxy);
+}
+
+// Base URL for links created by an MCP request
+function contextBaseUrl(context: MCPRequestContext): string {
+  return context.baseUrl ?? config.publicBaseUrl ?? `http://localhost:${config.port}`;
+}
+
+interface CreatedSession {
+  sessionId: string;
+  recordUrl: string;
+  // Short /r/:code link for typing or scanning on a phone
+  pairing?: { code: string; url: string };
+}
+
+// Create a waiting session and its recording link. Throws RateLimitError
+// when the client is over its session limit.
+async function createRecordingSession(
+  client: Client,
+  baseUrl: string,
+  options: RecordingOptions = {},
+  mcpSessionId?: string,
+): Promise<CreatedSession> {
+  await rateLimiter.consume("sessions", client);
+
+  const sessionId = generateSessionId();
+  const session: Session = {
+    id: sessionId,
+    createdAt: Date.now(),
+    status: "waiting",
+    options,
+    client: client.key,
+    ...(options.conversation ? { utteranceCount: 0, mcpSessionId } : {}),
+  };
+  await saveSession(session);
+
+  // The code lasts as long as the link it stands in for
+  const code = await pairingCodes.create(sessionId, config.auth.recordLinkTtlMs);
+  return {
+    sessionId,
+    recordUrl: await recordUrlFor(sessionId, baseUrl),
+    ...(code ? { pairing: { code, url: `${baseUrl}/r/${code}` } } : {}),
+  };
+}
+
+// Pairing code and QR code for the user to open the link on a phone. The QR
+// code holds the short link: fewer modules, easier to scan off a terminal.
+function pairingText({ code, url }: NonNullable<CreatedSession["pairing"]>, locale: Locale): string {
+  return messagesFor(locale).result.pairing(renderQrCode(encodeQrCode(url)), url, code);
+}
+
+// Signed, short-lived recording link for a session
+async function recordUrlFor(sessionId: string, baseUrl: string): Promise<string> {
+  const { exp, sig } = await linkSigner.sign(sessionId, config.auth.recordLinkTtlMs);
+  return `${baseUrl}/record/${sessionId}?exp=${exp}&sig=${sig}`;
+}
+
+function verifyRecordLink(sessionId: string, url: URL): Promise<LinkVerification> {
+  return linkSigner.verify(sessionId, url.searchParams.get("exp"), url.searchParams.get("sig"));
+}
+
+// Tool timeout argument in seconds -> milliseconds
+const { defaultWaitSeconds: DEFAULT_WAIT_SECONDS, maxWaitSeconds: MAX_WAIT_SECONDS } = config.sessions;
+
+function parseTimeout(value: unknown): number {
+  const seconds = typeof value === "number" && Number.isFinite(value) && value >= 0
+    ? Math.min(value, MAX_WAIT_SECONDS)
+    : DEFAULT_WAIT_SECONDS;
+  return seconds * 1000;
+}
+
+// Progress step reported for each session status
+const STATUS_PROGRESS: Record<Session["status"], number> = {
+  waiting: 0,
+  recording: 1,
+  processing: 2,
+  reviewing: 3,
+  completed: 4,
+  error: 4,
+  abandoned: 4,
+};
+const PROGRESS_TOTAL = 4;
+
+interface WaitOptions {
+  // Aborting marks the session as abandoned
+  signal?: AbortSignal;
+  // Called whenever the observed session status changes
+  onStatus?: (status: Session["status"], elapsedMs: number) => void;
+  // Overrides the output format chosen when the session was created
+  format?: OutputFormat;
+  // Overrides the result locale chosen when the session was created
+  locale?: Locale;
+}
+
+// Outcome of a result tool call, returned as structuredContent
+interface VoiceResult extends TranscriptMetadata {
+  // "expired" when the session no longer exists
+  status: Session["status"] | "expired";
+  sessionId: string;
+  // Transcript rendered in `format`
+  text?: string;
+  format?: OutputFormat;
+  segments?: TranscriptSegment[];
+  transcriptId?: string;
+  // Set when the session had a review step
+  edited?: boolean;
+  error?: string;
+  errorCode?: TranscriptionErrorCode;
+  // Link to send the user to while the recording is still pending
+  recordUrl?: string;
+  // Whether the wait ended before the session finished
+  timedOut?: boolean;
+}
 
-  const formData = new FormData();
-  const blob = new Blob([audioData], { type: "audio/wav" });
-  formData.append("file", blob, "recording.wav");
-  formData.append("model", "FunAudioLLM/SenseVoiceSmall");
+// Poll a session until it finishes or timeoutMs elapses.
+// Finished sessions are deleted once their result has been handed out.
+// Returns the plain-text summary next to the structured result.
+async function waitForResult(
+  sessionId: string,
+  timeoutMs: number,
+  recordUrl: string,
+  options: WaitOptions = {},
+): Promise<{ text: string; result: VoiceResult }> {
+  const startTime = Date.now();
+  let lastStatus: Session["status"] | undefined;
 
-  const response = await fetch("https://api.siliconflow.cn/v1/audio/transcriptions", {
-    method: "POST",
-    headers: {
-      "Authorization": `Bearer ${apiKey}`,
+  while (true) {
+    const currentSession = await getSession(sessionId);
+    const messages = messagesFor(options.locale ?? currentSession?.options?.locale ?? config.defaultLocale);
+
+    if (!currentSession) {
+      return { text: messages.result.expired, result: { status: "expired", sessionId } };
+    }
+
+    if (currentSession.status !== lastStatus) {
+      lastStatus = currentSession.status;
+      options.onStatus?.(currentSession.status, Date.now() - startTime);
+    }
+
+    // The response to a cancelled request is dropped, so nothing is handed out
+    // or deleted: a session still waiting on the user is abandoned, one already
+    // being processed stays readable with get-voice-result
+    if (options.signal?.aborted) {
+      await transitionSession(sessionId, "abandoned");
+      return { text: messages.result.cancelled, result: { status: "abandoned", sessionId } };
+    }
+
+    if (currentSession.status === "completed" && currentSession.result !== undefined) {
+      await deleteSession(sessionId);
+      const format = options.format ?? currentSession.options?.format ?? "text";
+      const text = renderTranscript(format, currentSession.result, currentSession.segments);
+      return {
+        text,
+        result: {
+          status: "completed",
+          sessionId,
+          text,
+          format,
+          ...currentSession.metadata,
+          segments: currentSession.segments,
+          transcriptId: currentSession.transcriptId,
+          edited: currentSession.edited,
+        },
+      };
+    }
+
+    if (currentSession.status === "error") {
+      const { error = messages.result.unknownError, errorCode } = currentSession;
+      await deleteSession(sessionId);
+      return {
+        text: messages.result.failed(error, errorCode),
+        result: { status: "error", sessionId, error, errorCode },
+      };
+    }
+
+    if (currentSession.status === "abandoned") {
+      return { text: messages.result.cancelled, result: { status: "abandoned", sessionId } };
+    }
+
+    if (Date.now() - startTime >= timeoutMs) {
+      if (timeoutMs > 0) {
+        waitTimeoutsTotal.inc();
+        logger.info("wait timed out", { sessionId, status: currentSession.status, timeoutMs });
+      }
+      const pending = timeoutMs > 0
+        ? messages.result.waitTimedOut(Math.round(timeoutMs / 1000), currentSession.status)
+        : messages.result.notFinished(currentSession.status);
+      return {
+        text: messages.result.pendingWithLink(pending, recordUrl, sessionId),
+        result: { status: currentSession.status, sessionId, recordUrl, timedOut: timeoutMs > 0 },
+      };
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, config.sessions.pollIntervalMs));
+  }
+}
+
+// Longest text the text-to-speech tool accepts
+const MAX_SPEECH_TEXT_LENGTH = 2000;
+
+// Most utterances returned by one get-new-utterances call
+const MAX_UTTERANCES_PER_CALL = 50;
+
+// Outcome of get-new-utterances, returned as structuredContent
+interface UtterancesResult {
+  // "expired" when the session no longer exists
+  status: "active" | "ended" | "expired";
+  sessionId: string;
+  endedBy?: "user" | "agent";
+  utterances: Utterance[];
+  // Pass back as `cursor` to read only newer utterances
+  cursor: number;
+}
+
+// Read a conversation's utterances after `cursor`, polling up to timeoutMs
+// for the first new one. An ended conversation may still have unread ones.
+async function waitForUtterances(
+  sessionId: string,
+  cursor: number,
+  timeoutMs: number,
+  signal?: AbortSignal,
+): Promise<UtterancesResult> {
+  const startTime = Date.now();
+
+  while (true) {
+    const session = await getSession(sessionId);
+    if (!session) {
+      return { status: "expired", sessionId, utterances: [], cursor };
+    }
+
+    const found = await utterances.since(sessionId, cursor, session.utteranceCount ?? 0, MAX_UTTERANCES_PER_CALL);
+    const ended = session.status !== "waiting" && session.status !== "recording";
+    if (found.length > 0 || ended || signal?.aborted || Date.now() - startTime >= timeoutMs) {
+      return {
+        status: ended ? "ended" : "active",
+        sessionId,
+        endedBy: session.endedBy,
+        utterances: found,
+        cursor: found.at(-1)?.seq ?? cursor,
+      };
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, config.sessions.pollIntervalMs));
+  }
+}
+
+// Wait options that report status changes as notifications/progress
+// when the tool call carried a progressToken
+function progressOptions(
+  params: Record<string, unknown> | undefined,
+  context: MCPRequestContext,
+  recordUrl: string,
+  locale: Locale,
+  pairing?: CreatedSession["pairing"],
+): WaitOptions {
+  const progressToken = (params?._meta as Record<string, unknown> | undefined)?.progressToken;
+  if (typeof progressToken !== "string" && typeof progressToken !== "number") {
+    return { signal: context.signal };
+  }
+
+  const messages = messagesFor(locale);
+  let notified = false;
+  return {
+    signal: context.signal,
+    onStatus: (status, elapsedMs) => {
+      const step = STATUS_PROGRESS[status];
+      const label = messages.status[status];
+      const seconds = Math.round(elapsedMs / 1000);
+      let message = messages.result.progress(label, seconds, recordUrl);
+      // The first notification doubles as the place to show the pairing code
+      if (pairing && !notified) {
+        message += `\n\n${pairingText(pairing, locale)}`;
+      }
+      notified = true;
+      context.notify({
+        jsonrpc: "2.0",
+        method: "notifications/progress",
+        params: {
+          progressToken,
+          progress: step,
+          total: PROGRESS_TOTAL,
+          message,
+          _meta: { status, recordUrl, elapsedMs },
+        },
+      });
     },
-    body: formData,
+  };
+}
+
+// Transcribe an upload; decoded audio is segmented, anything else goes to the provider in one call
+async function transcribe(
+  audioData: Uint8Array<ArrayBuffer>,
+  audioInfo: AudioInfo,
+  samples: Float32Array | undefined,
+  options: TranscriptionOptions,
+  transcriber: TranscriptionProvider = provider,
+): Promise<SegmentedTranscription> {
+  if (samples) {
+    return await transcribeSegmented(transcriber, samples, TARGET_SAMPLE_RATE, config.segment, options);
+  }
+
+  const result = await transcriber.transcribe(audioData, { ...options, mimeType: audioInfo.mimeType });
+  return {
+    ...result,
+    segments: [{ startMs: 0, endMs: audioInfo.durationMs ?? 0, text: result.text, emotion: result.emotion, event: result.event }],
+  };
+}
+
+// Archive id for a recording whose transcript is about to be stored, or
+// undefined when AUDIO_ARCHIVE is off
+function archiveIdFor(): string | undefined {
+  return config.archive.enabled ? crypto.randomUUID() : undefined;
+}
+
+// Keep the (normalized) recording for retranscribe under `audioId`, once its
+// transcript is stored. Runs in the background off the request path and is
+// best effort: a failure is logged, and retranscribe reports the audio as
+// not archived.
+function archiveAudio(
+  sessionId: string,
+  audioId: string | undefined,
+  audioData: Uint8Array<ArrayBuffer>,
+  audioInfo: AudioInfo,
+): void {
+  if (!audioId) {
+    return;
+  }
+  recordingArchive.put(audioData, audioInfo.mimeType, config.archive.retentionMs, audioId).catch((error) => {
+    logger.warn("audio archiving failed", { sessionId, audioId, ...errorFields(error) });
+  });
+}
+
+// Heartbeats can keep a review open past SESSION_TTL, but its take is only
+// held this long; a later confirm stores the transcript without audio
+const REVIEW_TAKE_TTL_MS = 60 * 60 * 1000;
+
+// Hold a take waiting in review under `takeId`, in the background like
+// archiveAudio
+function holdReviewTake(
+  sessionId: string,
+  takeId: string | undefined,
+  audioData: Uint8Array<ArrayBuffer>,
+  audioInfo: AudioInfo,
+): void {
+  if (!takeId) {
+    return;
+  }
+  reviewTakes.put(audioData, audioInfo.mimeType, REVIEW_TAKE_TTL_MS, takeId).catch((error) => {
+    logger.warn("holding review take failed", { sessionId, takeId, ...errorFields(error) });
+  });
+}
+
+// Move a confirmed take into the archive under the same id
+function archiveReviewTake(sessionId: string, takeId: string | undefined): void {
+  if (!takeId) {
+    return;
+  }
+  (async () => {
+    const take = await reviewTakes.get(takeId);
+    if (!take) {
+      logger.warn("review take expired before it was confirmed", { sessionId, takeId });
+      return;
+    }
+    await recordingArchive.put(take.data, take.mimeType, config.archive.retentionMs, takeId);
+    await reviewTakes.delete(takeId);
+  })().catch((error) => {
+    logger.warn("audio archiving failed", { sessionId, audioId: takeId, ...errorFields(error) });
+  });
+}
+
+// Drop a take the user recorded over
+function dropReviewTake(sessionId: string, takeId: string | undefined): void {
+  if (!takeId) {
+    return;
+  }
+  reviewTakes.delete(takeId).catch((error) => {
+    logger.warn("dropping review take failed", { sessionId, takeId, ...errorFields(error) });
+  });
+}
+
+// Providers other than the configured one, built on first use by retranscribe
+const alternateProviders = new Map<ProviderName, TranscriptionProvider>();
+
+function providerFor(name: ProviderName): TranscriptionProvider {
+  if (name === config.provider.provider) {
+    return provider;
+  }
+  let alternate = alternateProviders.get(name);
+  if (!alternate) {
+    alternate = instrumentProvider(
+      withResilience(createTranscriptionProvider({ ...config.provider, provider: name }), config.resilience),
+    );
+    alternateProviders.set(name, alternate);
+  }
+  return alternate;
+}
+
+// Code-mode post-processing of a transcription and each of its segments
+function dictate(transcription: SegmentedTranscription, vocabulary: Record<string, string> = {}): SegmentedTranscription {
+  const rules = { ...dictationRules, vocabulary: { ...dictationRules.vocabulary, ...vocabulary } };
+  return {
+    ...transcription,
+    text: applyDictation(transcription.text, rules),
+    segments: transcription.segments.map((segment) => ({ ...segment, text: applyDictation(segment.text, rules) })),
+  };
+}
+
+// Store a final transcript in the history and complete its claimed session
+async function finishSession(
+  session: Session,
+  { text: result, segments, ...metadata }: SegmentedTranscription,
+  durationMs: number | undefined,
+  { edited, audioId }: { edited?: boolean; audioId?: string } = {},
+): Promise<void> {
+  const { id: sessionId, options = {} } = session;
+  const transcript = await history.add({
+    sessionId,
+    text: result,
+    durationMs,
+    ...metadata,
+    provider: provider.name,
+    model: options.model ?? provider.model,
+    ...(audioId ? { audioId } : {}),
+  });
+  notifyTranscriptAdded(transcript);
+
+  await transitionSession(sessionId, "completed", {
+    result,
+    segments,
+    metadata,
+    transcriptId: transcript.id,
+    ...(edited === undefined ? {} : { edited }),
   });
+}
+
+// Transcribe a claimed ("processing") session and store the result in the
+// session and the history, or as a draft when the session has a review step.
+// Failures move the session to "error" and rethrow.
+async function completeSession(
+  session: Session,
+  audioData: Uint8Array<ArrayBuffer>,
+  audioInfo: AudioInfo,
+  samples: Float32Array | undefined,
+  source: "upload" | "stream",
+): Promise<string> {
+  const { id: sessionId, options = {} } = session;
+  if (audioInfo.durationMs !== undefined) {
+    audioDuration.observe(audioInfo.durationMs / 1000);
+  }
+  try {
+    const transcription = await transcribe(audioData, audioInfo, samples, transcriptionOptionsFor(options));
+    await rateLimiter.recordAudio(session.client ?? ANONYMOUS_CLIENT, (audioInfo.durationMs ?? 0) / 1000);
+    const final = options.mode === "code" ? dictate(transcription, options.vocabulary) : transcription;
+
+    if (options.review) {
+      const { text: result, segments, ...metadata } = final;
+      // A re-recorded session still points at the take this one replaces
+      dropReviewTake(sessionId, session.takeId);
+      const takeId = archiveIdFor();
+      if (
+        await transitionSession(sessionId, "reviewing", {
+          result,
+          segments,
+          metadata,
+          durationMs: audioInfo.durationMs,
+          takeId,
+        })
+      ) {
+        holdReviewTake(sessionId, takeId, audioData, audioInfo);
+      }
+    } else {
+      const audioId = archiveIdFor();
+      await finishSession(session, final, audioInfo.durationMs, { audioId });
+      archiveAudio(sessionId, audioId, audioData, audioInfo);
+    }
+    uploadsTotal.inc({ source, outcome: "completed" });
+    return final.text;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    uploadsTotal.inc({ source, outcome: error instanceof TranscriptionError ? error.code : "error" });
+    logger.error("transcription failed", { sessionId, source, ...errorFields(error) });
+    await transitionSession(sessionId, "error", {
+      error: message,
+      errorCode: error instanceof TranscriptionError ? error.code : undefined,
+    });
+    throw error;
+  }
+}
+
+// Transcribe one take of a conversation session and append it to the
+// session's utterance queue. The session stays open whether or not the
+// provider call succeeds; failures are rethrown for the page to show.
+async function addUtterance(
+  session: Session,
+  audioData: Uint8Array<ArrayBuffer>,
+  audioInfo: AudioInfo,
+  samples: Float32Array | undefined,
+  source: "upload" | "stream",
+): Promise<string> {
+  const { id: sessionId, options = {} } = session;
+  if (audioInfo.durationMs !== undefined) {
+    audioDuration.observe(audioInfo.durationMs / 1000);
+  }
+
+  let transcription: SegmentedTranscription;
+  try {
+    transcription = await transcribe(audioData, audioInfo, samples, transcriptionOptionsFor(options));
+  } catch (error) {
+    uploadsTotal.inc({ source, outcome: error instanceof TranscriptionError ? error.code : "error" });
+    logger.error("utterance transcription failed", { sessionId, source, ...errorFields(error) });
+    throw error;
+  }
+  await rateLimiter.recordAudio(session.client ?? ANONYMOUS_CLIENT, (audioInfo.durationMs ?? 0) / 1000);
+  const { text, segments: _segments, ...metadata } = options.mode === "code"
+    ? dictate(transcription, options.vocabulary)
+    : transcription;
+
+  const current = await getSession(sessionId);
+  if (current?.status !== "waiting" && current?.status !== "recording") {
+    throw new Error("Conversation has ended");
+  }
+
+  const audioId = archiveIdFor();
+  const transcript = await history.add({
+    sessionId,
+    text,
+    durationMs: audioInfo.durationMs,
+    ...metadata,
+    provider: provider.name,
+    model: options.model ?? provider.model,
+    ...(audioId ? { audioId } : {}),
+  });
+  notifyTranscriptAdded(transcript);
+  archiveAudio(sessionId, audioId, audioData, audioInfo);
+
+  const utterance = await utterances.append(sessionId, current.utteranceCount ?? 0, {
+    text,
+    createdAt: transcript.createdAt,
+    durationMs: audioInfo.durationMs,
+    ...metadata,
+    transcriptId: transcript.id,
+  });
+  // Only now raise the count over the stored utterance; this also keeps the
+  // session alive. A take that lands after the end stays unread.
+  const updated = await updateOpenSession(sessionId, (session) => ({
+    utteranceCount: Math.max(session.utteranceCount ?? 0, utterance.seq),
+  }));
+  if (!updated) {
+    throw new Error("Conversation has ended");
+  }
+  uploadsTotal.inc({ source, outcome: "completed" });
+  logger.info("utterance added", { sessionId, seq: utterance.seq });
+  notifyConversationUpdated(updated, { seq: utterance.seq, text });
+  return text;
+}
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`SiliconFlow API error: ${response.status} - ${errorText}`);
+// End a conversation session from either side. Returns null when the
+// session is gone, is not a conversation, or has already ended.
+async function endConversation(sessionId: string, endedBy: "user" | "agent"): Promise<Session | null> {
+  const session = await getSession(sessionId);
+  if (!session?.options?.conversation) {
+    return null;
   }
+  const ended = await transitionSession(sessionId, "completed", { endedBy });
+  if (ended) {
+    notifyConversationUpdated(ended, { ended: true, endedBy });
+  }
+  return ended;
+}
 
-  const result = await response.json();
-  return result.text;
+// Push a conversation change to the MCP session that started it
+function notifyConversationUpdated(session: Session, meta: Record<string, unknown>): void {
+  if (!session.mcpSessionId) {
+    return;
+  }
+  sendToSession(session.mcpSessionId, {
+    jsonrpc: "2.0",
+    method: "notifications/resources/updated",
+    params: { uri: conversationUri(session.id), _meta: { sessionId: session.id, ...meta } },
+  });
 }
 
+// Transcript resources
+const RESOURCE_PAGE_SIZE = 50;
+const DEFAULT_SEARCH_LIMIT = 10;
+const MAX_SEARCH_LIMIT = 50;
+
+// Subscribed resource URIs per MCP session
+const resourceSubscriptions = new Map<string, Set<string>>();
+
+function formatTranscript(transcript: Transcript): string {
+  const time = new Date(transcript.createdAt).toISOString();
+  return `[${time}] ${transcriptUri(transcript.id)}\n${transcript.text}`;
+}
+
+// Tell MCP clients a transcript was added to the history
+function notifyTranscriptAdded(transcript: Transcript): void {
+  broadcast({ jsonrpc: "2.0", method: "notifications/resources/list_changed" });
+
+  for (const [sessionId, uris] of resourceSubscriptions) {
+    if (!uris.has(TRANSCRIPTS_URI)) {
+      continue;
+    }
+    sendToSession(sessionId, {
+      jsonrpc: "2.0",
+      method: "notifications/resources/updated",
+      params: { uri: TRANSCRIPTS_URI, _meta: { transcriptUri: transcriptUri(transcript.id) } },
+    });
+  }
+}
+
+// JSON-RPC "invalid params" error for a tool call
+function invalidParams(id: MCPResponse["id"], message: string): MCPResponse {
+  return {
+    jsonrpc: "2.0",
+    id,
+    error: {
+      code: -32602,
+      message,
+    },
+  };
+}
+
+// Result tool output: clean transcript text plus the VoiceResult as structuredContent
+function voiceToolResult(id: MCPResponse["id"], { text, result }: { text: string; result: VoiceResult }): MCPResponse {
+  return {
+    jsonrpc: "2.0",
+    id,
+    result: {
+      content: [
+        {
+          type: "text",
+          text,
+        },
+      ],
+      structuredContent: result,
+      isError: result.status === "error" || result.status === "expired",
+    },
+  };
+}
+
+// get-new-utterances output: one "[seq] text" line per utterance plus the
+// UtterancesResult as structuredContent
+function utterancesToolResult(id: MCPResponse["id"], result: UtterancesResult, locale: Locale): MCPResponse {
+  const messages = messagesFor(locale).result;
+  const lines = result.utterances.map((utterance) => `[${utterance.seq}] ${utterance.text}`);
+  let text = lines.length > 0
+    ? messages.utterances(lines.join("\n"), result.cursor)
+    : messages.noNewUtterances(result.cursor);
+  if (result.status === "expired") {
+    text = messages.expired;
+  } else if (result.status === "ended") {
+    text += `\n${messages.conversationEnded(result.endedBy ?? "user")}`;
+  }
+
+  return {
+    jsonrpc: "2.0",
+    id,
+    result: {
+      content: [
+        {
+          type: "text",
+          text,
+        },
+      ],
+      structuredContent: result,
+      isError: result.status === "expired",
+    },
+  };
+}
+
+// Tool call refused by a rate limit or quota
+function rateLimitedResult(id: MCPResponse["id"], error: RateLimitError, locale: Locale): MCPResponse {
+  return {
+    jsonrpc: "2.0",
+    id,
+    result: {
+      content: [
+        {
+          type: "text",
+          text: messagesFor(locale).result.rateLimited(error.code, error.message),
+        },
+      ],
+      isError: true,
+    },
+  };
+}
+
+// Human-readable summary of a key's usage for get-voice-usage
+function formatUsage(usage: Usage, locale: Locale): string {
+  const { result } = messagesFor(locale);
+  const period = (name: Period, { audioSecondsLimit, ...rest }: Usage["day"]) =>
+    result.usagePeriod(name, { ...rest, quota: audioSecondsLimit });
+  return result.usage(usage.key, period("day", usage.day), period("month", usage.month));
+}
+
+// Wrap plain text as an MCP tool result
+function textResult(id: MCPResponse["id"], text: string): MCPResponse {
+  return {
+    jsonrpc: "2.0",
+    id,
+    result: {
+      content: [
+        {
+          type: "text",
+          text,
+        },
+      ],
+    },
+  };
+}
+
+// Tool failure the agent should see, as opposed to a protocol error
+function errorResult(id: MCPResponse["id"], text: string): MCPResponse {
+  return {
+    jsonrpc: "2.0",
+    id,
+    result: {
+      content: [{ type: "text", text }],
+      isError: true,
+    },
+  };
+}
+
+// Methods handleMCPRequest answers; others are counted as "other" in
+// mcp_requests_total so clients can't grow its label set
+const MCP_METHODS = new Set([
+  "initialize",
+  "ping",
+  "tools/list",
+  "tools/call",
+  "resources/list",
+  "resources/templates/list",
+  "resources/read",
+  "resources/subscribe",
+  "resources/unsubscribe",
+]);
+
 // Handle MCP requests
-async function handleMCPRequest(request: MCPRequest): Promise<MCPResponse> {
+async function handleMCPRequest(request: MCPRequest, context: MCPRequestContext): Promise<MCPResponse> {
   const { id, method, params } = request;
 
   switch (method) {
@@ -89,19 +1187,126 @@ async function handleMCPRequest(request: MCPRequest): Promise<MCPResponse> {
         jsonrpc: "2.0",
         id,
         result: {
-          protocolVersion: "2024-11-05",
+          protocolVersion: negotiateProtocolVersion(params?.protocolVersion),
           capabilities: {
             tools: {},
+            resources: {
+              subscribe: true,
+              listChanged: true,
+            },
           },
           serverInfo: {
             name: "opencode-voice",
             version: "1.0.0",
+            transcriptionProvider: provider.name,
+            transcriptionModel: provider.model,
           },
         },
       };
     }
 
+    case "ping": {
+      return { jsonrpc: "2.0", id, result: {} };
+    }
+
     case "tools/list": {
+      const messages = messagesFor(config.defaultLocale);
+      const timeoutSchema = {
+        type: "number",
+        description: messages.args.timeout(DEFAULT_WAIT_SECONDS, MAX_WAIT_SECONDS),
+      };
+      const sessionIdSchema = {
+        type: "string",
+        description: messages.args.sessionId,
+      };
+      const formatSchema = {
+        type: "string",
+        enum: OUTPUT_FORMATS,
+        description: messages.args.format,
+      };
+      const localeSchema = {
+        type: "string",
+        enum: LOCALES,
+        description: messages.args.locale,
+      };
+      const segmentSchema = {
+        type: "object",
+        properties: {
+          startMs: { type: "number" },
+          endMs: { type: "number" },
+          text: { type: "string" },
+          emotion: { type: "string" },
+          event: { type: "string" },
+        },
+        required: ["startMs", "endMs", "text"],
+      };
+      const voiceResultSchema = {
+        type: "object",
+        properties: {
+          status: {
+            type: "string",
+            enum: ["waiting", "recording", "processing", "reviewing", "completed", "error", "abandoned", "expired"],
+          },
+          sessionId: { type: "string" },
+          text: { type: "string", description: messages.schema.text },
+          format: { type: "string", enum: OUTPUT_FORMATS },
+          language: { type: "string", description: messages.schema.language },
+          emotion: {
+            type: "string",
+            enum: ["happy", "sad", "angry", "neutral", "fearful", "disgusted", "surprised", "unknown"],
+          },
+          event: {
+            type: "string",
+            enum: ["speech", "bgm", "applause", "laughter", "cry", "sneeze", "breath", "cough", "unknown"],
+          },
+          itn: { type: "boolean", description: messages.schema.itn },
+          segments: { type: "array", items: segmentSchema },
+          transcriptId: { type: "string" },
+          edited: { type: "boolean", description: messages.schema.edited },
+          error: { type: "string" },
+          errorCode: {
+            type: "string",
+            enum: ["auth", "quota", "bad_audio", "provider_down", "timeout"],
+            description: messages.schema.errorCode,
+          },
+          recordUrl: { type: "string" },
+          timedOut: { type: "boolean" },
+        },
+        required: ["status", "sessionId"],
+      };
+      const recordingOptionsSchema = {
+        language: {
+          type: "string",
+          enum: TRANSCRIPTION_LANGUAGES,
+          description: messages.args.language,
+        },
+        model: {
+          type: "string",
+          description: messages.args.model(provider.model),
+        },
+        hotwords: {
+          type: "array",
+          items: { type: "string" },
+          description: messages.args.hotwords,
+        },
+        format: formatSchema,
+        mode: {
+          type: "string",
+          enum: DICTATION_MODES,
+          description: messages.args.mode,
+        },
+        vocabulary: {
+          type: "object",
+          additionalProperties: { type: "string" },
+          description: messages.args.vocabulary,
+        },
+        review: {
+          type: "boolean",
+          description: messages.args.review,
+        },
+        locale: localeSchema,
+      };
+
       return {
         jsonrpc: "2.0",
         id,
@@ -109,10 +1314,177 @@ async function handleMCPRequest(request: MCPRequest): Promise<MCPResponse> {
           tools: [
             {
               name: "voice-to-text",
-              description: "🎤 语音转文字工具。返回录音链接，用户在浏览器打开录音后自动返回转写的文字。",
+              description: messages.tools.voiceToText,
+              inputSchema: {
+                type: "object",
+                properties: {
+                  timeout: timeoutSchema,
+                  ...recordingOptionsSchema,
+                },
+              },
+              outputSchema: voiceResultSchema,
+            },
+            {
+              name: "start-voice-recording",
+              description: messages.tools.startRecording,
+              inputSchema: {
+                type: "object",
+                properties: {
+                  ...recordingOptionsSchema,
+                  conversation: {
+                    type: "boolean",
+                    description: messages.args.conversation,
+                  },
+                },
+              },
+            },
+            {
+              name: "get-voice-result",
+              description: messages.tools.getResult,
+              inputSchema: {
+                type: "object",
+                properties: {
+                  session_id: sessionIdSchema,
+                  format: formatSchema,
+                  locale: localeSchema,
+                },
+                required: ["session_id"],
+              },
+              outputSchema: voiceResultSchema,
+            },
+            {
+              name: "wait-for-voice-result",
+              description: messages.tools.waitForResult,
+              inputSchema: {
+                type: "object",
+                properties: {
+                  session_id: sessionIdSchema,
+                  timeout: timeoutSchema,
+                  format: formatSchema,
+                  locale: localeSchema,
+                },
+                required: ["session_id"],
+              },
+              outputSchema: voiceResultSchema,
+            },
+            {
+              name: "search-transcripts",
+              description: messages.tools.searchTranscripts,
+              inputSchema: {
+                type: "object",
+                properties: {
+                  query: {
+                    type: "string",
+                    description: messages.args.query,
+                  },
+                  since_minutes: {
+                    type: "number",
+                    description: messages.args.sinceMinutes,
+                  },
+                  limit: {
+                    type: "number",
+                    description: messages.args.limit(DEFAULT_SEARCH_LIMIT),
+                  },
+                  locale: localeSchema,
+                },
+              },
+            },
+            {
+              name: "get-new-utterances",
+              description: messages.tools.getNewUtterances,
+              inputSchema: {
+                type: "object",
+                properties: {
+                  session_id: sessionIdSchema,
+                  cursor: {
+                    type: "integer",
+                    minimum: 0,
+                    description: messages.args.cursor,
+                  },
+                  timeout: {
+                    type: "number",
+                    description: messages.args.utteranceTimeout(MAX_WAIT_SECONDS),
+                  },
+                  locale: localeSchema,
+                },
+                required: ["session_id"],
+              },
+            },
+            {
+              name: "end-voice-conversation",
+              description: messages.tools.endConversation,
+              inputSchema: {
+                type: "object",
+                properties: {
+                  session_id: sessionIdSchema,
+                  locale: localeSchema,
+                },
+                required: ["session_id"],
+              },
+            },
+            {
+              name: "retranscribe",
+              description: messages.tools.retranscribe,
+              inputSchema: {
+                type: "object",
+                properties: {
+                  transcript_id: {
+                    type: "string",
+                    description: messages.args.transcriptId,
+                  },
+                  provider: {
+                    type: "string",
+                    enum: PROVIDER_NAMES,
+                    description: messages.args.provider(config.provider.provider),
+                  },
+                  language: recordingOptionsSchema.language,
+                  model: {
+                    type: "string",
+                    description: messages.args.retranscribeModel,
+                  },
+                  hotwords: recordingOptionsSchema.hotwords,
+                  mode: recordingOptionsSchema.mode,
+                  vocabulary: recordingOptionsSchema.vocabulary,
+                  locale: localeSchema,
+                },
+                required: ["transcript_id"],
+              },
+            },
+            {
+              name: "text-to-speech",
+              description: messages.tools.textToSpeech,
+              inputSchema: {
+                type: "object",
+                properties: {
+                  text: {
+                    type: "string",
+                    description: messages.args.speechText(MAX_SPEECH_TEXT_LENGTH),
+                  },
+                  session_id: {
+                    type: "string",
+                    description: messages.args.speechSessionId,
+                  },
+                  voice: {
+                    type: "string",
+                    description: messages.args.voice(speech.voice),
+                  },
+                  speed: {
+                    type: "number",
+                    minimum: 0.25,
+                    maximum: 4,
+                    description: messages.args.speed,
+                  },
+                  locale: localeSchema,
+                },
+                required: ["text"],
+              },
+            },
+            {
+              name: "get-voice-usage",
+              description: messages.tools.getUsage,
               inputSchema: {
                 type: "object",
-                properties: {},
+                properties: { locale: localeSchema },
               },
             },
           ],
@@ -120,96 +1492,508 @@ async function handleMCPRequest(request: MCPRequest): Promise<MCPResponse> {
       };
     }
 
-    case "tools/call": {
-      const toolName = (params as Record<string, unknown>)?.name as string;
-      
-      if (toolName === "voice-to-text") {
-        const sessionId = generateSessionId();
-        const session: Session = {
-          id: sessionId,
-          createdAt: Date.now(),
-          status: "waiting",
-        };
-        await saveSession(session);
-
-        const baseUrl = Deno.env.get("DENO_DEPLOYMENT_ID") 
-          ? `https://${Deno.env.get("DENO_DEPLOYMENT_ID")}.deno.dev`
-          : "http://localhost:8000";
-
-        const recordUrl = `${baseUrl}/record/${sessionId}`;
-
-        const maxWait = 60000;
-        const startTime = Date.now();
-
-        while (true) {
-          const currentSession = await getSession(sessionId);
-          
-          if (!currentSession) {
-            return {
-              jsonrpc: "2.0",
-              id,
-              result: {
-                content: [
-                  {
-                    type: "text",
-                    text: "❌ 会话已过期，请重试。",
-                  },
-                ],
-              },
-            };
+    case "resources/list": {
+      const cursor = typeof params?.cursor === "string" ? params.cursor : undefined;
+      const { transcripts, nextCursor } = await history.list(RESOURCE_PAGE_SIZE, cursor);
+      const resources = transcripts.map((transcript) => ({
+        uri: transcriptUri(transcript.id),
+        name: `transcript-${transcript.id}`,
+        title: transcript.text.slice(0, 40),
+        description: `${new Date(transcript.createdAt).toISOString()} · ${transcript.provider}`,
+        mimeType: "application/json",
+      }));
+
+      // The collection resource heads the first page
+      if (!cursor) {
+        resources.unshift({
+          uri: TRANSCRIPTS_URI,
+          name: "transcripts",
+          title: messagesFor(config.defaultLocale).resources.recentTitle,
+          description: messagesFor(config.defaultLocale).resources.recentDescription,
+          mimeType: "application/json",
+        });
+      }
+
+      return { jsonrpc: "2.0", id, result: { resources, nextCursor } };
+    }
+
+    case "resources/templates/list": {
+      return {
+        jsonrpc: "2.0",
+        id,
+        result: {
+          resourceTemplates: [
+            {
+              uriTemplate: `${TRANSCRIPTS_URI}/{id}`,
+              name: "transcript",
+              title: messagesFor(config.defaultLocale).resources.transcriptTitle,
+              mimeType: "application/json",
+            },
+            {
+              uriTemplate: `${CONVERSATIONS_URI}/{sessionId}`,
+              name: "conversation",
+              title: messagesFor(config.defaultLocale).resources.conversationTitle,
+              mimeType: "application/json",
+            },
+          ],
+        },
+      };
+    }
+
+    case "resources/read": {
+      const uri = params?.uri as string;
+
+      if (uri === TRANSCRIPTS_URI) {
+        const { transcripts } = await history.list(RESOURCE_PAGE_SIZE);
+        return {
+          jsonrpc: "2.0",
+          id,
+          result: {
+            contents: [{ uri, mimeType: "application/json", text: JSON.stringify(transcripts) }],
+          },
+        };
+      }
+
+      const conversationId = typeof uri === "string" ? parseConversationUri(uri) : null;
+      const conversation = conversationId ? await getOwnSession(conversationId, context) : null;
+      if (conversation?.options?.conversation) {
+        const count = conversation.utteranceCount ?? 0;
+        const content = {
+          sessionId: conversation.id,
+          status: conversation.status === "waiting" || conversation.status === "recording" ? "active" : "ended",
+          endedBy: conversation.endedBy,
+          utterances: await utterances.since(conversation.id, 0, count, count),
+        };
+        return {
+          jsonrpc: "2.0",
+          id,
+          result: {
+            contents: [{ uri, mimeType: "application/json", text: JSON.stringify(content) }],
+          },
+        };
+      }
+
+      const transcriptId = typeof uri === "string" ? parseTranscriptUri(uri) : null;
+      const transcript = transcriptId ? await history.get(transcriptId) : null;
+      if (!transcript) {
+        return {
+          jsonrpc: "2.0",
+          id,
+          error: {
+            code: -32002,
+            message: "Resource not found",
+            data: { uri },
+          },
+        };
+      }
+
+      return {
+        jsonrpc: "2.0",
+        id,
+        result: {
+          contents: [{ uri, mimeType: "application/json", text: JSON.stringify(transcript) }],
+        },
+      };
+    }
+
+    case "resources/subscribe":
+    case "resources/unsubscribe": {
+      const uri = params?.uri;
+      if (typeof uri !== "string") {
+        return {
+          jsonrpc: "2.0",
+          id,
+          error: {
+            code: -32602,
+            message: "Missing required argument: uri",
+          },
+        };
+      }
+
+      // Subscriptions live on the MCP session; without one there is nowhere to deliver updates
+      if (!context.sessionId) {
+        return {
+          jsonrpc: "2.0",
+          id,
+          error: {
+            code: -32600,
+            message: "Subscriptions require an MCP session",
+          },
+        };
+      }
+
+      const subscriptions = resourceSubscriptions.get(context.sessionId) ?? new Set<string>();
+      if (method === "resources/subscribe") {
+        subscriptions.add(uri);
+      } else {
+        subscriptions.delete(uri);
+      }
+      resourceSubscriptions.set(context.sessionId, subscriptions);
+
+      return { jsonrpc: "2.0", id, result: {} };
+    }
+
+    case "tools/call": {
+      const toolName = (params as Record<string, unknown>)?.name as string;
+      const args = ((params as Record<string, unknown>)?.arguments ?? {}) as Record<string, unknown>;
+
+      if (toolName === "voice-to-text") {
+        const options = parseRecordingOptions(args);
+        if (typeof options === "string") {
+          return invalidParams(id, options);
+        }
+        if (options.conversation) {
+          return invalidParams(id, "conversation sessions are started with start-voice-recording");
+        }
+        const locale = options.locale ?? config.defaultLocale;
+        let created;
+        try {
+          created = await createRecordingSession(context.client ?? { key: ANONYMOUS_CLIENT }, contextBaseUrl(context), options);
+        } catch (error) {
+          if (error instanceof RateLimitError) {
+            return rateLimitedResult(id, error, locale);
+          }
+          throw error;
+        }
+        const { sessionId, recordUrl, pairing } = created;
+        const outcome = await waitForResult(
+          sessionId,
+          parseTimeout(args.timeout),
+          recordUrl,
+          progressOptions(params, context, recordUrl, locale, pairing),
+        );
+        // Nobody has opened the page yet, so the code may still be needed
+        if (pairing && outcome.result.status === "waiting") {
+          outcome.text += `\n\n${pairingText(pairing, locale)}`;
+        }
+        return voiceToolResult(id, outcome);
+      }
+
+      if (toolName === "start-voice-recording") {
+        const options = parseRecordingOptions(args);
+        if (typeof options === "string") {
+          return invalidParams(id, options);
+        }
+        const locale = options.locale ?? config.defaultLocale;
+        let created;
+        try {
+          created = await createRecordingSession(
+            context.client ?? { key: ANONYMOUS_CLIENT },
+            contextBaseUrl(context),
+            options,
+            context.sessionId,
+          );
+        } catch (error) {
+          if (error instanceof RateLimitError) {
+            return rateLimitedResult(id, error, locale);
+          }
+          throw error;
+        }
+        const { sessionId, recordUrl, pairing } = created;
+        const { result } = messagesFor(locale);
+        const link = options.conversation
+          ? result.conversationLink(recordUrl, sessionId)
+          : result.openLink(recordUrl, sessionId);
+        return textResult(id, pairing ? `${link}\n\n${pairingText(pairing, locale)}` : link);
+      }
+
+      if (toolName === "get-new-utterances") {
+        const sessionId = args.session_id;
+        if (typeof sessionId !== "string" || !sessionId) {
+          return invalidParams(id, "Missing required argument: session_id");
+        }
+        const cursor = args.cursor ?? 0;
+        if (typeof cursor !== "number" || !Number.isInteger(cursor) || cursor < 0) {
+          return invalidParams(id, "cursor must be a non-negative integer");
+        }
+        const options = parseRecordingOptions({ locale: args.locale });
+        if (typeof options === "string") {
+          return invalidParams(id, options);
+        }
+        const session = await getSession(sessionId);
+        if (session && !ownsSession(session, context)) {
+          const locale = options.locale ?? config.defaultLocale;
+          return utterancesToolResult(id, { status: "expired", sessionId, utterances: [], cursor }, locale);
+        }
+        if (session && !session.options?.conversation) {
+          return invalidParams(id, "Not a conversation session; use get-voice-result");
+        }
+
+        const timeoutMs = typeof args.timeout === "number" ? parseTimeout(args.timeout) : 0;
+        const outcome = await waitForUtterances(sessionId, cursor, timeoutMs, context.signal);
+        return utterancesToolResult(id, outcome, options.locale ?? session?.options?.locale ?? config.defaultLocale);
+      }
+
+      if (toolName === "end-voice-conversation") {
+        const sessionId = args.session_id;
+        if (typeof sessionId !== "string" || !sessionId) {
+          return invalidParams(id, "Missing required argument: session_id");
+        }
+        const options = parseRecordingOptions({ locale: args.locale });
+        if (typeof options === "string") {
+          return invalidParams(id, options);
+        }
+        const ended = await getOwnSession(sessionId, context) ? await endConversation(sessionId, "agent") : null;
+        const { result } = messagesFor(options.locale ?? ended?.options?.locale ?? config.defaultLocale);
+        if (!ended) {
+          return textResult(id, result.conversationNotOpen);
+        }
+        return textResult(id, result.conversationEnded("agent"));
+      }
+
+      if (toolName === "retranscribe") {
+        const transcriptId = args.transcript_id;
+        if (typeof transcriptId !== "string" || !transcriptId) {
+          return invalidParams(id, "Missing required argument: transcript_id");
+        }
+        if (args.provider !== undefined && !PROVIDER_NAMES.includes(args.provider as ProviderName)) {
+          return invalidParams(id, `provider must be one of: ${PROVIDER_NAMES.join(", ")}`);
+        }
+        const options = parseRecordingOptions({
+          language: args.language,
+          model: args.model,
+          hotwords: args.hotwords,
+          mode: args.mode,
+          vocabulary: args.vocabulary,
+          locale: args.locale,
+        });
+        if (typeof options === "string") {
+          return invalidParams(id, options);
+        }
+        const locale = options.locale ?? config.defaultLocale;
+        const { result: messages } = messagesFor(locale);
+
+        // The transcript's voice://transcripts/{id} uri works as well as its id
+        const original = await history.get(parseTranscriptUri(transcriptId) ?? transcriptId);
+        if (!original) {
+          return errorResult(id, messages.transcriptNotFound);
+        }
+        const audio = original.audioId ? await recordingArchive.get(original.audioId) : null;
+        if (!audio) {
+          return errorResult(id, messages.audioNotArchived);
+        }
+
+        // Archived audio passed validation on upload; normalized 16 kHz WAV is
+        // segmented again like a fresh upload
+        const audioInfo = validateAudio(audio.data, Number.POSITIVE_INFINITY);
+        const decoded = audioInfo.format === "wav" ? decodeWav(audio.data) : null;
+        const samples = decoded?.sampleRate === TARGET_SAMPLE_RATE ? decoded.samples : undefined;
+        // The WAV header gives the length; other containers are refused under a
+        // quota, as on upload
+        const durationMs = audioInfo.durationMs ?? original.durationMs;
+        if (durationMs === undefined && audioQuotaEnabled) {
+          return errorResult(id, messages.audioDurationUnknown);
+        }
+        const seconds = (durationMs ?? 0) / 1000;
+
+        const client = context.client ?? { key: ANONYMOUS_CLIENT };
+        try {
+          await rateLimiter.consume("uploads", client);
+          await rateLimiter.checkAudioQuota(client.key, seconds);
+        } catch (error) {
+          if (error instanceof RateLimitError) {
+            return rateLimitedResult(id, error, locale);
+          }
+          throw error;
+        }
+
+        const transcriber = providerFor((args.provider as ProviderName | undefined) ?? config.provider.provider);
+        let transcription: SegmentedTranscription;
+        try {
+          transcription = await transcribe(audio.data, audioInfo, samples, transcriptionOptionsFor(options), transcriber);
+        } catch (error) {
+          if (error instanceof TranscriptionError) {
+            logger.error("retranscription failed", {
+              transcriptId: original.id,
+              provider: transcriber.name,
+              ...errorFields(error),
+            });
+            return errorResult(id, messages.failed(error.message, error.code));
+          }
+          throw error;
+        }
+        await rateLimiter.recordAudio(client.key, seconds);
+
+        const { text, segments: _segments, ...metadata } = options.mode === "code"
+          ? dictate(transcription, options.vocabulary)
+          : transcription;
+        // A new entry next to the original, so both results stay in the history
+        const transcript = await history.add({
+          sessionId: original.sessionId,
+          text,
+          durationMs: original.durationMs,
+          ...metadata,
+          provider: transcriber.name,
+          model: options.model ?? transcriber.model,
+          audioId: original.audioId,
+          retranscribedFrom: original.id,
+        });
+        notifyTranscriptAdded(transcript);
+        logger.info("transcript retranscribed", {
+          transcriptId: transcript.id,
+          retranscribedFrom: original.id,
+          provider: transcript.provider,
+          model: transcript.model,
+        });
+
+        return {
+          jsonrpc: "2.0",
+          id,
+          result: {
+            content: [
+              {
+                type: "text",
+                text: messages.retranscribed(text, original.text, `${transcript.provider}/${transcript.model}`),
+              },
+            ],
+            structuredContent: {
+              transcriptId: transcript.id,
+              retranscribedFrom: original.id,
+              text,
+              originalText: original.text,
+              provider: transcript.provider,
+              model: transcript.model,
+              ...metadata,
+            },
+          },
+        };
+      }
+
+      if (toolName === "text-to-speech") {
+        const text = typeof args.text === "string" ? args.text.trim() : "";
+        if (!text || text.length > MAX_SPEECH_TEXT_LENGTH) {
+          return invalidParams(id, `text must be a non-empty string of up to ${MAX_SPEECH_TEXT_LENGTH} characters`);
+        }
+        if (args.voice !== undefined && (typeof args.voice !== "string" || !args.voice.trim())) {
+          return invalidParams(id, "voice must be a non-empty string");
+        }
+        if (args.speed !== undefined && (typeof args.speed !== "number" || args.speed < 0.25 || args.speed > 4)) {
+          return invalidParams(id, "speed must be a number between 0.25 and 4");
+        }
+        if (args.session_id !== undefined && typeof args.session_id !== "string") {
+          return invalidParams(id, "session_id must be a string");
+        }
+        const options = parseRecordingOptions({ locale: args.locale });
+        if (typeof options === "string") {
+          return invalidParams(id, options);
+        }
+        const sessionId = args.session_id as string | undefined;
+        const session = sessionId ? await getOwnSession(sessionId, context) : null;
+        const locale = options.locale ?? session?.options?.locale ?? config.defaultLocale;
+        const { result: messages } = messagesFor(locale);
+
+        // Every synthesis is a provider call, counted like an upload
+        try {
+          await rateLimiter.consume("uploads", context.client ?? { key: ANONYMOUS_CLIENT });
+        } catch (error) {
+          if (error instanceof RateLimitError) {
+            return rateLimitedResult(id, error, locale);
           }
+          throw error;
+        }
 
-          if (currentSession.status === "completed" && currentSession.result) {
-            await deleteSession(sessionId);
-            return {
-              jsonrpc: "2.0",
-              id,
-              result: {
-                content: [
-                  {
-                    type: "text",
-                    text: `🎤 转写结果：${currentSession.result}`,
-                  },
-                ],
-              },
-            };
+        let synthesized;
+        try {
+          synthesized = await speech.synthesize(text, {
+            voice: (args.voice as string | undefined)?.trim(),
+            speed: args.speed as number | undefined,
+          });
+        } catch (error) {
+          if (error instanceof TranscriptionError) {
+            logger.error("speech synthesis failed", { sessionId, ...errorFields(error) });
+            return errorResult(id, messages.speechFailed(error.message, error.code));
           }
+          throw error;
+        }
 
-          if (currentSession.status === "error") {
-            const error = currentSession.error || "未知错误";
-            await deleteSession(sessionId);
-            return {
-              jsonrpc: "2.0",
-              id,
-              result: {
-                content: [
-                  {
-                    type: "text",
-                    text: `❌ 转写失败：${error}`,
-                  },
-                ],
-              },
-            };
-          }
+        const { audio, mimeType } = synthesized;
+        const audioId = await audioStore.put(audio, mimeType, config.speech.audioTtlMs);
+        const url = `${contextBaseUrl(context)}/api/audio/${audioId}`;
+        // The session's recording page picks this up and plays it; only a
+        // session still open for recording has a page to play it on
+        const queued = session
+          ? await updateOpenSession(session.id, (current) => {
+            const seq = (current.replyCount ?? 0) + 1;
+            const reply: SpeechReply = { seq, audioId, createdAt: Date.now() };
+            return { replyCount: seq, replies: [...(current.replies ?? []), reply].slice(-MAX_SESSION_REPLIES) };
+          })
+          : null;
+        logger.info("speech synthesized", { sessionId, audioId, bytes: audio.byteLength, queued: queued !== null });
 
-          if (Date.now() - startTime > maxWait) {
-            await deleteSession(sessionId);
-            return {
-              jsonrpc: "2.0",
-              id,
-              result: {
-                content: [
-                  {
-                    type: "text",
-                    text: `⏰ 录音超时（60秒）。请打开此链接录音：${recordUrl}`,
-                  },
-                ],
-              },
-            };
-          }
+        return {
+          jsonrpc: "2.0",
+          id,
+          result: {
+            content: [{ type: "text", text: messages.speechReady(url, queued !== null) }],
+            structuredContent: { audioId, url, mimeType, bytes: audio.byteLength, queued: queued !== null },
+          },
+        };
+      }
+
+      if (toolName === "get-voice-usage") {
+        const options = parseRecordingOptions({ locale: args.locale });
+        if (typeof options === "string") {
+          return invalidParams(id, options);
+        }
+        const usage = await rateLimiter.usage(context.client?.key ?? ANONYMOUS_CLIENT);
+        return {
+          jsonrpc: "2.0",
+          id,
+          result: {
+            content: [{ type: "text", text: formatUsage(usage, options.locale ?? config.defaultLocale) }],
+            structuredContent: usage,
+          },
+        };
+      }
+
+      if (toolName === "search-transcripts") {
+        const options = parseRecordingOptions({ locale: args.locale });
+        if (typeof options === "string") {
+          return invalidParams(id, options);
+        }
+        const query = typeof args.query === "string" ? args.query : "";
+        const limit = typeof args.limit === "number" && args.limit > 0
+          ? Math.min(Math.floor(args.limit), MAX_SEARCH_LIMIT)
+          : DEFAULT_SEARCH_LIMIT;
+        const since = typeof args.since_minutes === "number"
+          ? Date.now() - args.since_minutes * 60 * 1000
+          : undefined;
+
+        const transcripts = await history.search(query, { limit, since });
+        if (transcripts.length === 0) {
+          return textResult(id, messagesFor(options.locale ?? config.defaultLocale).result.noTranscripts);
+        }
+        return textResult(id, transcripts.map(formatTranscript).join("\n"));
+      }
 
-          await new Promise((resolve) => setTimeout(resolve, 500));
+      if (toolName === "get-voice-result" || toolName === "wait-for-voice-result") {
+        const sessionId = args.session_id;
+        if (typeof sessionId !== "string" || !sessionId) {
+          return invalidParams(id, "Missing required argument: session_id");
         }
+        const options = parseRecordingOptions({ format: args.format, locale: args.locale });
+        if (typeof options === "string") {
+          return invalidParams(id, options);
+        }
+        const { format, locale } = options;
+        const session = await getSession(sessionId);
+        if (session && !ownsSession(session, context)) {
+          const { result } = messagesFor(locale ?? config.defaultLocale);
+          return voiceToolResult(id, { text: result.expired, result: { status: "expired", sessionId } });
+        }
+        if (session?.options?.conversation) {
+          return invalidParams(id, "Conversation sessions are read with get-new-utterances");
+        }
+
+        const recordUrl = await recordUrlFor(sessionId, contextBaseUrl(context));
+        const outcome = toolName === "wait-for-voice-result"
+          ? await waitForResult(sessionId, parseTimeout(args.timeout), recordUrl, {
+            ...progressOptions(params, context, recordUrl, locale ?? config.defaultLocale),
+            format,
+            locale,
+          })
+          : await waitForResult(sessionId, 0, recordUrl, { format, locale });
+        return voiceToolResult(id, outcome);
       }
 
       return {
@@ -234,15 +2018,146 @@ async function handleMCPRequest(request: MCPRequest): Promise<MCPResponse> {
   }
 }
 
-// CORS headers
+// CORS headers; Access-Control-Allow-Origin is added per request by withCors
 const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
-  "Access-Control-Allow-Headers": "Content-Type, Authorization",
+  "Access-Control-Allow-Methods": "GET, POST, DELETE, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, Mcp-Session-Id, MCP-Protocol-Version, Last-Event-ID",
+  "Access-Control-Expose-Headers": "Mcp-Session-Id",
 };
 
+// MCP Streamable HTTP endpoint
+const mcpTransport = createMCPTransport({
+  storage,
+  headers: corsHeaders,
+  handleRequest: (request, context) => {
+    mcpRequestsTotal.inc({ method: MCP_METHODS.has(request.method) ? request.method : "other" });
+    return handleMCPRequest(request, context);
+  },
+  onSessionClosed: (sessionId) => resourceSubscriptions.delete(sessionId),
+});
+
+// Allow the request's Origin when it is on the CORS allow-list
+function withCors(origin: string | null, response: Response): Response {
+  // WebSocket upgrades carry no CORS headers (and theirs can't be changed)
+  if (response.status === 101) {
+    return response;
+  }
+  if (origin && allowedOrigins.includes("*")) {
+    response.headers.set("Access-Control-Allow-Origin", "*");
+  } else if (origin && allowedOrigins.includes(origin)) {
+    response.headers.set("Access-Control-Allow-Origin", origin);
+    response.headers.append("Vary", "Origin");
+  }
+  return response;
+}
+
+function invalidLinkResponse(): Response {
+  return new Response(
+    JSON.stringify({ error: "Invalid or expired link", code: "invalid_link" }),
+    { status: 403, headers: { "Content-Type": "application/json", ...corsHeaders } }
+  );
+}
+
+// Longest transcript accepted from the review step
+const MAX_CONFIRMED_TEXT_LENGTH = 20_000;
+
+// Session id in a recording page or API path, for request logs
+const SESSION_PATH = /^\/(?:record|api\/recording|api\/upload|api\/stream|api\/confirm|api\/heartbeat|api\/end|api\/replies)\/([^/]+)$/;
+
+// Probes, scrapes and the recording page's reply polling are logged at
+// debug level so they don't drown out traffic
+const QUIET_PATHS = new Set(["/healthz", "/readyz", "/metrics"]);
+const QUIET_PREFIXES = ["/api/replies/"];
+
 // Main handler
-async function handler(req: Request): Promise<Response> {
+async function handler(req: Request, info: Deno.ServeHandlerInfo): Promise<Response> {
+  // Read before routing: an upgraded request's headers are no longer accessible
+  const origin = req.headers.get("Origin");
+  const mcpSessionId = req.headers.get("Mcp-Session-Id") ?? undefined;
+  const start = performance.now();
+  // The query string carries link signatures, so only the path is logged
+  const { pathname } = new URL(req.url);
+
+  let response: Response;
+  try {
+    response = await route(req, clientIp(req, info));
+  } catch (error) {
+    logger.error("request failed", { method: req.method, path: pathname, ...errorFields(error) });
+    response = new Response(
+      JSON.stringify({ error: "Internal server error", code: "internal_error" }),
+      { status: 500, headers: { "Content-Type": "application/json", ...corsHeaders } }
+    );
+  }
+
+  const fields = {
+    method: req.method,
+    path: pathname,
+    status: response.status,
+    durationMs: Math.round(performance.now() - start),
+    sessionId: SESSION_PATH.exec(pathname)?.[1],
+    mcpSessionId,
+  };
+  if (QUIET_PATHS.has(pathname) || QUIET_PREFIXES.some((prefix) => pathname.startsWith(prefix))) {
+    logger.debug("request", fields);
+  } else {
+    logger.info("request", fields);
+  }
+  return withCors(origin, response);
+}
+
+// Readiness: storage answers a round trip and the provider is configured
+async function checkReadiness(): Promise<Record<string, string>> {
+  const checks: Record<string, string> = {};
+  try {
+    const probe = String(Date.now());
+    await storage.set(["health", "readyz"], probe, { expireIn: 60_000 });
+    const entry = await storage.get<string>(["health", "readyz"]);
+    checks.storage = entry?.value === probe ? "ok" : "read back a different value";
+  } catch (error) {
+    checks.storage = error instanceof Error ? error.message : String(error);
+  }
+  checks.provider = provider.checkConfiguration() ?? "ok";
+  return checks;
+}
+
+// Client address for per-IP limits: the connection's peer, or the address
+// a trusted proxy forwarded
+function clientIp(req: Request, info: Deno.ServeHandlerInfo): string | undefined {
+  const peer = info.remoteAddr.transport === "tcp" || info.remoteAddr.transport === "udp"
+    ? info.remoteAddr.hostname
+    : undefined;
+  return requestIp(req, peer, config.trustProxy, config.proxyHops);
+}
+
+// API key name a request authenticates as: "anonymous" when auth is off,
+// null when keys are configured and none matched
+function requestKey(req: Request): string | null {
+  return apiKeys.length > 0 ? authenticate(req, apiKeys) : ANONYMOUS_CLIENT;
+}
+
+function unauthorizedResponse(): Response {
+  return new Response(
+    JSON.stringify({ error: "Unauthorized", code: "unauthorized" }),
+    { status: 401, headers: { "Content-Type": "application/json", "WWW-Authenticate": "Bearer", ...corsHeaders } }
+  );
+}
+
+// 429 for a refused session, upload or quota, with Retry-After
+function rateLimitedResponse(error: RateLimitError): Response {
+  return new Response(
+    JSON.stringify({ error: error.message, code: error.code }),
+    {
+      status: error.status,
+      headers: {
+        "Content-Type": "application/json",
+        "Retry-After": String(Math.ceil(error.retryAfterMs / 1000)),
+        ...corsHeaders,
+      },
+    }
+  );
+}
+
+async function route(req: Request, ip?: string): Promise<Response> {
   const url = new URL(req.url);
   const pathname = url.pathname;
 
@@ -250,615 +2165,525 @@ async function handler(req: Request): Promise<Response> {
     return new Response(null, { headers: corsHeaders });
   }
 
-  if (pathname === "/mcp" && req.method === "POST") {
-    try {
-      const body = await req.json();
-      const response = await handleMCPRequest(body);
-      return new Response(JSON.stringify(response), {
-        headers: { "Content-Type": "application/json", ...corsHeaders },
+  if (pathname === "/healthz" && req.method === "GET") {
+    return new Response(
+      JSON.stringify({ status: "ok", uptimeSeconds: Math.round((Date.now() - startedAt) / 1000) }),
+      { headers: { "Content-Type": "application/json", ...corsHeaders } }
+    );
+  }
+
+  if (pathname === "/readyz" && req.method === "GET") {
+    const checks = await checkReadiness();
+    const ready = Object.values(checks).every((check) => check === "ok");
+    return new Response(
+      JSON.stringify({ status: ready ? "ok" : "unavailable", checks }),
+      { status: ready ? 200 : 503, headers: { "Content-Type": "application/json", ...corsHeaders } }
+    );
+  }
+
+  // Same API keys as /mcp when they are configured
+  if (pathname === "/metrics" && req.method === "GET") {
+    if (apiKeys.length > 0 && !authenticate(req, apiKeys)) {
+      return new Response("Unauthorized", {
+        status: 401,
+        headers: { "WWW-Authenticate": "Bearer", ...corsHeaders },
       });
-    } catch {
+    }
+    return new Response(renderMetrics(), {
+      headers: { "Content-Type": "text/plain; version=0.0.4; charset=utf-8", ...corsHeaders },
+    });
+  }
+
+  // Usage and limits of the calling API key
+  if (pathname === "/api/usage" && req.method === "GET") {
+    const key = requestKey(req);
+    if (!key) {
+      return unauthorizedResponse();
+    }
+    return new Response(
+      JSON.stringify(await rateLimiter.usage(key)),
+      { headers: { "Content-Type": "application/json", ...corsHeaders } }
+    );
+  }
+
+  // Effective configuration with secrets redacted
+  if (pathname === "/api/config" && req.method === "GET") {
+    if (!requestKey(req)) {
+      return unauthorizedResponse();
+    }
+    return new Response(
+      JSON.stringify({ ...redactConfig(config), baseUrl: baseUrlFor(req) }),
+      { headers: { "Content-Type": "application/json", ...corsHeaders } }
+    );
+  }
+
+  if (pathname === "/mcp") {
+    const key = requestKey(req);
+    if (!key) {
       return new Response(
-        JSON.stringify({ jsonrpc: "2.0", error: { code: -32700, message: "Parse error" } }),
-        { status: 400, headers: { "Content-Type": "application/json", ...corsHeaders } }
+        JSON.stringify({ jsonrpc: "2.0", id: null, error: { code: -32001, message: "Unauthorized" } }),
+        {
+          status: 401,
+          headers: { "Content-Type": "application/json", "WWW-Authenticate": "Bearer", ...corsHeaders },
+        }
       );
     }
+    return mcpTransport(req, { client: { key, ip }, baseUrl: baseUrlFor(req) });
+  }
+
+  // Pairing code typed or scanned on a phone: forward to a freshly signed link
+  if (pathname.startsWith("/r/") && req.method === "GET") {
+    const code = pathname.replace("/r/", "");
+    const locale = negotiateLocale(req, config.defaultLocale);
+    const { pages } = messagesFor(locale);
+    let sessionId;
+    try {
+      sessionId = await pairingCodes.resolve(code, ip);
+    } catch (error) {
+      if (error instanceof RateLimitError) {
+        const response = htmlResponse((nonce) =>
+          generateMessagePage("⏳", pages.tooManyAttemptsTitle, pages.tooManyAttemptsMessage, nonce, locale), 429);
+        response.headers.set("Retry-After", String(Math.ceil(error.retryAfterMs / 1000)));
+        return response;
+      }
+      throw error;
+    }
+    if (!sessionId) {
+      return htmlResponse((nonce) =>
+        generateMessagePage("❓", pages.invalidLinkTitle, pages.invalidLinkMessage, nonce, locale), 404);
+    }
+
+    const target = new URL(await recordUrlFor(sessionId, baseUrlFor(req)));
+    const lang = url.searchParams.get("lang");
+    if (lang) {
+      target.searchParams.set("lang", lang);
+    }
+    return new Response(null, { status: 302, headers: { Location: target.toString(), "Cache-Control": "no-store" } });
   }
 
   if (pathname.startsWith("/record/")) {
     const sessionId = pathname.replace("/record/", "");
-    const html = generateRecordingPage(sessionId);
-    return new Response(html, {
-      headers: { "Content-Type": "text/html; charset=utf-8", ...corsHeaders },
-    });
+    const verification = isValidSessionId(sessionId) ? await verifyRecordLink(sessionId, url) : "invalid";
+    const locale = negotiateLocale(req, config.defaultLocale);
+    const { pages } = messagesFor(locale);
+    if (verification === "invalid") {
+      return htmlResponse((nonce) =>
+        generateMessagePage("❓", pages.invalidLinkTitle, pages.invalidLinkMessage, nonce, locale), 404);
+    }
+
+    const session = verification === "valid" ? await getSession(sessionId) : null;
+    if (!session) {
+      return htmlResponse((nonce) =>
+        generateMessagePage("⏰", pages.expiredLinkTitle, pages.expiredLinkMessage, nonce, locale), 410);
+    }
+
+    if (session.status !== "waiting" && session.status !== "recording" && session.status !== "reviewing") {
+      return htmlResponse((nonce) =>
+        generateMessagePage("✅", pages.usedLinkTitle, pages.usedLinkMessage, nonce, locale), 409);
+    }
+
+    return htmlResponse((nonce) => generateRecordingPage(sessionId, nonce, locale, session.options));
+  }
+
+  if (pathname.startsWith("/api/recording/") && req.method === "POST") {
+    const sessionId = pathname.replace("/api/recording/", "");
+    if (!isValidSessionId(sessionId) || await verifyRecordLink(sessionId, url) !== "valid") {
+      return invalidLinkResponse();
+    }
+    // Recording again from the review step discards the draft; its take is
+    // dropped once the next one replaces it
+    const session = await transitionSession(sessionId, "recording", {
+      result: undefined,
+      segments: undefined,
+      metadata: undefined,
+    }) ?? await getSession(sessionId);
+
+    if (!session) {
+      return new Response(
+        JSON.stringify({ error: "Session not found" }),
+        { status: 404, headers: { "Content-Type": "application/json", ...corsHeaders } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ status: session.status }),
+      { headers: { "Content-Type": "application/json", ...corsHeaders } }
+    );
   }
 
   if (pathname.startsWith("/api/upload/") && req.method === "POST") {
     const sessionId = pathname.replace("/api/upload/", "");
+    if (!isValidSessionId(sessionId) || await verifyRecordLink(sessionId, url) !== "valid") {
+      return invalidLinkResponse();
+    }
     const session = await getSession(sessionId);
 
     if (!session) {
       return new Response(
-        JSON.stringify({ error: "Session not found" }),
+        JSON.stringify({ error: "Session not found", code: "session_not_found" }),
         { status: 404, headers: { "Content-Type": "application/json", ...corsHeaders } }
       );
     }
 
+    if (session.status === "abandoned") {
+      return new Response(
+        JSON.stringify({ error: "Session abandoned", code: "session_abandoned" }),
+        { status: 410, headers: { "Content-Type": "application/json", ...corsHeaders } }
+      );
+    }
+
+    const alreadyUploaded = () =>
+      new Response(
+        JSON.stringify({ error: "Recording already uploaded", code: "already_uploaded" }),
+        { status: 409, headers: { "Content-Type": "application/json", ...corsHeaders } }
+      );
+    // A new take may replace a draft that is still being reviewed
+    if (session.status !== "waiting" && session.status !== "recording" && session.status !== "reviewing") {
+      return alreadyUploaded();
+    }
+
+    // Uploads count against the key that created the session and the uploader's IP
+    const client: Client = { key: session.client ?? ANONYMOUS_CLIENT, ip };
+    try {
+      await rateLimiter.consume("uploads", client);
+    } catch (error) {
+      if (error instanceof RateLimitError) {
+        uploadsTotal.inc({ source: "upload", outcome: error.code });
+        return rateLimitedResponse(error);
+      }
+      throw error;
+    }
+
+    // Rejected uploads leave the session waiting so the user can record again
+    let audioData: Uint8Array<ArrayBuffer>;
+    let audioInfo: AudioInfo;
+    // Decoded 16 kHz mono samples, when the upload could be normalized
+    let samples: Float32Array | undefined;
+    try {
+      audioData = await readBodyWithLimit(req, config.upload.maxBytes);
+      audioInfo = validateAudio(audioData, config.upload.maxAudioMs);
+      if (audioInfo.durationMs === undefined && audioQuotaEnabled) {
+        throw new AudioValidationError(
+          "unsupported_format",
+          415,
+          "Only WAV uploads are accepted while an audio quota is configured",
+        );
+      }
+
+      // Containers other than PCM WAV go to the provider as uploaded
+      const normalized = config.normalize.enabled && audioInfo.format === "wav"
+        ? normalizeWav(audioData, config.normalize)
+        : null;
+      if (normalized) {
+        audioData = normalized.data;
+        samples = normalized.samples;
+        audioInfo = { ...audioInfo, durationMs: normalized.durationMs, sampleRate: TARGET_SAMPLE_RATE, channels: 1 };
+      }
+    } catch (error) {
+      if (error instanceof AudioValidationError) {
+        uploadsTotal.inc({ source: "upload", outcome: error.code });
+        return new Response(
+          JSON.stringify({ error: error.message, code: error.code }),
+          { status: error.status, headers: { "Content-Type": "application/json", ...corsHeaders } }
+        );
+      }
+      throw error;
+    }
+
     try {
-      session.status = "processing";
-      await saveSession(session);
-      
-      const audioData = new Uint8Array(await req.arrayBuffer());
-      const result = await transcribeAudio(audioData);
-      
-      session.result = result;
-      session.status = "completed";
-      await saveSession(session);
+      await rateLimiter.checkAudioQuota(client.key, (audioInfo.durationMs ?? 0) / 1000);
+    } catch (error) {
+      if (error instanceof RateLimitError) {
+        uploadsTotal.inc({ source: "upload", outcome: error.code });
+        return rateLimitedResponse(error);
+      }
+      throw error;
+    }
+
+    // Each link uploads once: claim the session atomically before calling the provider.
+    // Conversation sessions stay open and take any number of uploads.
+    const conversation = session.options?.conversation === true;
+    if (!conversation && !await transitionSession(sessionId, "processing")) {
+      return alreadyUploaded();
+    }
 
+    try {
+      const result = conversation
+        ? await addUtterance(session, audioData, audioInfo, samples, "upload")
+        : await completeSession(session, audioData, audioInfo, samples, "upload");
       return new Response(
         JSON.stringify({ success: true, result }),
         { headers: { "Content-Type": "application/json", ...corsHeaders } }
       );
     } catch (error) {
-      session.status = "error";
-      session.error = error instanceof Error ? error.message : "Unknown error";
-      await saveSession(session);
+      if (error instanceof TranscriptionError) {
+        const headers: Record<string, string> = { "Content-Type": "application/json", ...corsHeaders };
+        if (error.retryAfterMs !== undefined) {
+          headers["Retry-After"] = String(Math.ceil(error.retryAfterMs / 1000));
+        }
+        return new Response(
+          JSON.stringify({ error: error.message, code: error.code }),
+          { status: error.status, headers }
+        );
+      }
+      const message = error instanceof Error ? error.message : "Unknown error";
       return new Response(
-        JSON.stringify({ error: session.error }),
+        JSON.stringify({ error: message }),
         { status: 500, headers: { "Content-Type": "application/json", ...corsHeaders } }
       );
     }
   }
 
-  if (pathname.startsWith("/api/status/")) {
-    const sessionId = pathname.replace("/api/status/", "");
-    const session = await getSession(sessionId);
+  if (pathname.startsWith("/api/confirm/") && req.method === "POST") {
+    const sessionId = pathname.replace("/api/confirm/", "");
+    if (!isValidSessionId(sessionId) || await verifyRecordLink(sessionId, url) !== "valid") {
+      return invalidLinkResponse();
+    }
+
+    const body = await req.json().catch(() => null) as { text?: unknown } | null;
+    if (typeof body?.text !== "string" || !body.text.trim() || body.text.length > MAX_CONFIRMED_TEXT_LENGTH) {
+      return new Response(
+        JSON.stringify({
+          error: `Expected {"text": "..."} with 1 to ${MAX_CONFIRMED_TEXT_LENGTH} characters`,
+          code: "invalid_text",
+        }),
+        { status: 400, headers: { "Content-Type": "application/json", ...corsHeaders } }
+      );
+    }
+    const text = body.text.trim();
 
+    // Claim the draft so a second confirm or a late upload can't race this one
+    const session = await transitionSession(sessionId, "processing", {}, "reviewing");
     if (!session) {
       return new Response(
-        JSON.stringify({ error: "Session not found" }),
-        { status: 404, headers: { "Content-Type": "application/json", ...corsHeaders } }
+        JSON.stringify({ error: "Session has no transcript awaiting review", code: "not_reviewing" }),
+        { status: 409, headers: { "Content-Type": "application/json", ...corsHeaders } }
       );
     }
 
+    const edited = text !== session.result;
+    await finishSession(
+      session,
+      // Edited text no longer lines up with the segment timestamps, so it
+      // becomes one segment spanning the recording
+      {
+        ...session.metadata,
+        text,
+        segments: edited ? [{ startMs: 0, endMs: session.durationMs ?? 0, text }] : session.segments ?? [],
+      },
+      session.durationMs,
+      { edited, audioId: session.takeId },
+    );
+    archiveReviewTake(sessionId, session.takeId);
     return new Response(
-      JSON.stringify({ status: session.status, result: session.result, error: session.error }),
+      JSON.stringify({ success: true, result: text, edited }),
       { headers: { "Content-Type": "application/json", ...corsHeaders } }
     );
   }
 
-  if (pathname === "/") {
-    return new Response(null, {
-      status: 302,
-      headers: { Location: "/record/demo", ...corsHeaders },
+  // Synthesized replies; the random id is the capability, like a signed link
+  if (pathname.startsWith("/api/audio/") && req.method === "GET") {
+    const audioId = pathname.replace("/api/audio/", "");
+    const audio = isValidSessionId(audioId) ? await audioStore.get(audioId) : null;
+    if (!audio) {
+      return new Response(
+        JSON.stringify({ error: "Audio not found", code: "audio_not_found" }),
+        { status: 404, headers: { "Content-Type": "application/json", ...corsHeaders } }
+      );
+    }
+    return new Response(audio.data, {
+      headers: {
+        "Content-Type": audio.mimeType,
+        "Content-Length": String(audio.data.byteLength),
+        "Cache-Control": "private, max-age=3600",
+        ...corsHeaders,
+      },
     });
   }
 
-  return new Response("Not Found", { status: 404, headers: corsHeaders });
-}
-
-function generateRecordingPage(sessionId: string): string {
-  return `<!DOCTYPE html>
-<html lang="zh-CN">
-<head>
-  <meta charset="UTF-8">
-  <meta name="viewport" content="width=device-width, initial-scale=1.0, user-scalable=no">
-  <title>🎤 语音转文字</title>
-  <style>
-    * { margin: 0; padding: 0; box-sizing: border-box; }
-    
-    body {
-      font-family: -apple-system, BlinkMacSystemFont, 'SF Pro Display', 'SF Pro Text', 'Segoe UI', Roboto, sans-serif;
-      min-height: 100vh;
-      display: flex;
-      align-items: center;
-      justify-content: center;
-      color: #fff;
-      background: linear-gradient(145deg, #0f0c29 0%, #1a1a3e 50%, #24243e 100%);
-      overflow: hidden;
-      -webkit-font-smoothing: antialiased;
-    }
-    
-    body::before {
-      content: '';
-      position: fixed;
-      top: -50%;
-      left: -50%;
-      width: 200%;
-      height: 200%;
-      background: 
-        radial-gradient(ellipse at 20% 20%, rgba(139, 92, 246, 0.15) 0%, transparent 50%),
-        radial-gradient(ellipse at 80% 80%, rgba(168, 85, 247, 0.1) 0%, transparent 50%),
-        radial-gradient(ellipse at 50% 50%, rgba(126, 34, 206, 0.08) 0%, transparent 60%);
-      animation: bgFloat 20s ease-in-out infinite;
-      pointer-events: none;
-    }
-    
-    @keyframes bgFloat {
-      0%, 100% { transform: translate(0, 0) rotate(0deg); }
-      33% { transform: translate(2%, 2%) rotate(1deg); }
-      66% { transform: translate(-1%, 1%) rotate(-1deg); }
-    }
-    
-    .container {
-      position: relative;
-      text-align: center;
-      padding: 48px 40px;
-      max-width: 420px;
-      width: 90%;
-      background: rgba(255, 255, 255, 0.03);
-      backdrop-filter: blur(40px);
-      -webkit-backdrop-filter: blur(40px);
-      border-radius: 32px;
-      border: 1px solid rgba(255, 255, 255, 0.08);
-      box-shadow: 
-        0 8px 32px rgba(0, 0, 0, 0.3),
-        inset 0 1px 0 rgba(255, 255, 255, 0.1);
-    }
-    
-    .container::before {
-      content: '';
-      position: absolute;
-      top: 0;
-      left: 0;
-      right: 0;
-      height: 50%;
-      background: linear-gradient(180deg, rgba(255, 255, 255, 0.06) 0%, transparent 100%);
-      border-radius: 32px 32px 0 0;
-      pointer-events: none;
-    }
-    
-    h1 {
-      font-size: 28px;
-      font-weight: 600;
-      margin-bottom: 8px;
-      color: #fff;
-      letter-spacing: -0.5px;
-      position: relative;
-      z-index: 1;
-    }
-    
-    .subtitle {
-      font-size: 15px;
-      color: rgba(255, 255, 255, 0.5);
-      margin-bottom: 40px;
-      font-weight: 400;
-      position: relative;
-      z-index: 1;
-    }
-    
-    .mic-container {
-      position: relative;
-      width: 140px;
-      height: 140px;
-      margin: 0 auto 32px;
-      z-index: 1;
-    }
-    
-    .mic-ring {
-      position: absolute;
-      top: -10px;
-      left: -10px;
-      right: -10px;
-      bottom: -10px;
-      border-radius: 50%;
-      border: 2px solid transparent;
-      background: linear-gradient(145deg, rgba(139, 92, 246, 0.3), rgba(168, 85, 247, 0.1)) border-box;
-      -webkit-mask: linear-gradient(#fff 0 0) padding-box, linear-gradient(#fff 0 0);
-      mask: linear-gradient(#fff 0 0) padding-box, linear-gradient(#fff 0 0);
-      -webkit-mask-composite: xor;
-      mask-composite: exclude;
-      opacity: 0;
-      transition: opacity 0.3s ease;
-    }
-    
-    .mic-container:hover .mic-ring {
-      opacity: 1;
-    }
-    
-    .mic-icon {
-      width: 140px;
-      height: 140px;
-      border-radius: 50%;
-      background: linear-gradient(145deg, rgba(139, 92, 246, 0.9), rgba(126, 34, 206, 0.9));
-      display: flex;
-      align-items: center;
-      justify-content: center;
-      font-size: 56px;
-      cursor: pointer;
-      transition: all 0.4s cubic-bezier(0.175, 0.885, 0.32, 1.275);
-      box-shadow: 
-        0 10px 40px rgba(139, 92, 246, 0.4),
-        0 0 0 1px rgba(255, 255, 255, 0.1) inset;
-      position: relative;
-      overflow: hidden;
-    }
-    
-    .mic-icon::before {
-      content: '';
-      position: absolute;
-      top: 0;
-      left: 0;
-      right: 0;
-      height: 50%;
-      background: linear-gradient(180deg, rgba(255, 255, 255, 0.2) 0%, transparent 100%);
-      border-radius: 50% 50% 0 0;
-    }
-    
-    .mic-icon:hover {
-      transform: scale(1.08);
-      box-shadow: 
-        0 15px 50px rgba(139, 92, 246, 0.5),
-        0 0 0 1px rgba(255, 255, 255, 0.15) inset;
-    }
-    
-    .mic-icon:active {
-      transform: scale(0.95);
-    }
-    
-    .mic-icon.recording {
-      background: linear-gradient(145deg, rgba(236, 72, 153, 0.95), rgba(219, 39, 119, 0.95));
-      box-shadow: 
-        0 10px 40px rgba(236, 72, 153, 0.5),
-        0 0 0 1px rgba(255, 255, 255, 0.15) inset;
-      animation: recordPulse 1.5s ease-in-out infinite;
-    }
-    
-    @keyframes recordPulse {
-      0%, 100% { 
-        transform: scale(1);
-        box-shadow: 
-          0 10px 40px rgba(236, 72, 153, 0.5),
-          0 0 0 0 rgba(236, 72, 153, 0.4);
-      }
-      50% { 
-        transform: scale(1.05);
-        box-shadow: 
-          0 15px 50px rgba(236, 72, 153, 0.6),
-          0 0 0 20px rgba(236, 72, 153, 0);
-      }
+  // Spoken replies queued for a session after `after`, polled by the recording page
+  if (pathname.startsWith("/api/replies/") && req.method === "GET") {
+    const sessionId = pathname.replace("/api/replies/", "");
+    if (!isValidSessionId(sessionId) || await verifyRecordLink(sessionId, url) !== "valid") {
+      return invalidLinkResponse();
+    }
+    const session = await getSession(sessionId);
+    if (!session) {
+      return new Response(
+        JSON.stringify({ error: "Session not found" }),
+        { status: 404, headers: { "Content-Type": "application/json", ...corsHeaders } }
+      );
     }
-    
-    .mic-icon .emoji {
-      filter: drop-shadow(0 2px 8px rgba(0, 0, 0, 0.3));
-      position: relative;
-      z-index: 1;
-    }
-    
-    .visualizer {
-      display: flex;
-      align-items: center;
-      justify-content: center;
-      gap: 3px;
-      height: 50px;
-      margin-bottom: 24px;
-      position: relative;
-      z-index: 1;
-    }
-    
-    .bar {
-      width: 3px;
-      background: linear-gradient(to top, #a855f7, #ec4899);
-      border-radius: 3px;
-      transition: height 0.08s ease;
-      box-shadow: 0 0 10px rgba(168, 85, 247, 0.5);
-    }
-    
-    .status {
-      font-size: 17px;
-      color: rgba(255, 255, 255, 0.7);
-      margin-bottom: 24px;
-      min-height: 24px;
-      font-weight: 500;
-      transition: all 0.3s ease;
-      position: relative;
-      z-index: 1;
-    }
-    
-    .status.recording {
-      color: #ec4899;
-    }
-    
-    .status.success {
-      color: #10b981;
-    }
-    
-    .status.error {
-      color: #f43f5e;
-    }
-    
-    .result-box {
-      background: rgba(255, 255, 255, 0.05);
-      backdrop-filter: blur(20px);
-      -webkit-backdrop-filter: blur(20px);
-      border-radius: 20px;
-      padding: 20px 24px;
-      margin-top: 16px;
-      min-height: 80px;
-      text-align: left;
-      word-break: break-word;
-      border: 1px solid rgba(255, 255, 255, 0.08);
-      box-shadow: inset 0 1px 0 rgba(255, 255, 255, 0.05);
-      position: relative;
-      z-index: 1;
-    }
-    
-    .result-label {
-      font-size: 12px;
-      color: rgba(255, 255, 255, 0.4);
-      text-transform: uppercase;
-      letter-spacing: 1px;
-      margin-bottom: 8px;
-    }
-    
-    .result-text {
-      font-size: 16px;
-      line-height: 1.6;
-      color: rgba(255, 255, 255, 0.9);
-      font-weight: 400;
-    }
-    
-    .hint {
-      font-size: 13px;
-      color: rgba(255, 255, 255, 0.35);
-      margin-top: 24px;
-      position: relative;
-      z-index: 1;
-    }
-    
-    .hidden {
-      display: none !important;
-    }
-    
-    .loading {
-      display: inline-block;
-      width: 20px;
-      height: 20px;
-      border: 2px solid rgba(255, 255, 255, 0.2);
-      border-top-color: #a855f7;
-      border-radius: 50%;
-      animation: spin 0.8s linear infinite;
-      margin-right: 8px;
-      vertical-align: middle;
-    }
-    
-    @keyframes spin {
-      to { transform: rotate(360deg); }
-    }
-  </style>
-</head>
-<body>
-  <div class="container">
-    <h1>🎤 语音转文字</h1>
-    <p class="subtitle">点击麦克风开始录音</p>
-    
-    <div class="visualizer hidden" id="visualizer"></div>
-    
-    <div class="mic-container">
-      <div class="mic-ring"></div>
-      <div class="mic-icon" id="micIcon">
-        <span class="emoji">🎤</span>
-      </div>
-    </div>
-    
-    <div class="status" id="status">准备就绪</div>
-    
-    <div class="result-box hidden" id="resultBox">
-      <div class="result-label">转写结果</div>
-      <div class="result-text" id="resultText"></div>
-    </div>
-    
-    <div class="hint" id="hint">按住空格键或点击麦克风录音</div>
-  </div>
-
-  <script>
-    const sessionId = "${sessionId}";
-    let mediaRecorder = null;
-    let audioChunks = [];
-    let isRecording = false;
-    let audioContext = null;
-    let analyser = null;
-    let dataArray = null;
-    let visualizerInterval = null;
-
-    const micIcon = document.getElementById("micIcon");
-    const statusEl = document.getElementById("status");
-    const resultBox = document.getElementById("resultBox");
-    const resultText = document.getElementById("resultText");
-    const hintEl = document.getElementById("hint");
-    const visualizerEl = document.getElementById("visualizer");
-
-    for (let i = 0; i < 24; i++) {
-      const bar = document.createElement("div");
-      bar.className = "bar";
-      bar.style.height = "4px";
-      visualizerEl.appendChild(bar);
-    }
-    const bars = visualizerEl.querySelectorAll(".bar");
-
-    async function startRecording() {
-      try {
-        const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-        
-        audioContext = new AudioContext();
-        analyser = audioContext.createAnalyser();
-        const source = audioContext.createMediaStreamSource(stream);
-        source.connect(analyser);
-        analyser.fftSize = 64;
-        dataArray = new Uint8Array(analyser.frequencyBinCount);
-
-        mediaRecorder = new MediaRecorder(stream, { mimeType: "audio/webm" });
-        audioChunks = [];
-
-        mediaRecorder.ondataavailable = (e) => {
-          audioChunks.push(e.data);
-        };
 
-        mediaRecorder.onstop = async () => {
-          const audioBlob = new Blob(audioChunks, { type: "audio/webm" });
-          await uploadAudio(audioBlob);
-          stream.getTracks().forEach(track => track.stop());
-        };
+    const after = Number(url.searchParams.get("after") ?? 0) || 0;
+    const replies = (session.replies ?? [])
+      .filter((reply) => reply.seq > after)
+      .map(({ seq, audioId }) => ({ seq, url: `/api/audio/${audioId}` }));
+    return new Response(
+      JSON.stringify({ status: session.status, replies }),
+      { headers: { "Content-Type": "application/json", ...corsHeaders } }
+    );
+  }
 
-        mediaRecorder.start();
-        isRecording = true;
-        
-        micIcon.classList.add("recording");
-        statusEl.textContent = "正在录音...";
-        statusEl.classList.add("recording");
-        visualizerEl.classList.remove("hidden");
-        hintEl.classList.add("hidden");
-        
-        visualizerInterval = setInterval(updateVisualizer, 80);
-        
-      } catch (err) {
-        console.error("Microphone access denied:", err);
-        statusEl.textContent = "❌ 无法访问麦克风";
-        statusEl.classList.add("error");
-      }
+  // Conversation pages call this while open, and review pages while the
+  // transcript awaits confirmation: it renews the session TTL and hands back
+  // a fresh link signature so the page outlives RECORD_LINK_TTL_SECONDS
+  if (pathname.startsWith("/api/heartbeat/") && req.method === "POST") {
+    const sessionId = pathname.replace("/api/heartbeat/", "");
+    if (!isValidSessionId(sessionId) || await verifyRecordLink(sessionId, url) !== "valid") {
+      return invalidLinkResponse();
     }
-
-    function stopRecording() {
-      if (mediaRecorder && isRecording) {
-        mediaRecorder.stop();
-        isRecording = false;
-        
-        micIcon.classList.remove("recording");
-        statusEl.innerHTML = '<span class="loading"></span>正在转写...';
-        statusEl.classList.remove("recording");
-        visualizerEl.classList.add("hidden");
-        
-        if (visualizerInterval) {
-          clearInterval(visualizerInterval);
-          visualizerInterval = null;
-        }
-      }
+    const session = await getSession(sessionId);
+    if (!session?.options?.conversation && !session?.options?.review) {
+      return new Response(
+        JSON.stringify({ error: "Not a conversation or review session", code: "not_renewable" }),
+        { status: 409, headers: { "Content-Type": "application/json", ...corsHeaders } }
+      );
     }
 
-    function updateVisualizer() {
-      if (!analyser || !dataArray) return;
-      
-      analyser.getByteFrequencyData(dataArray);
-      
-      for (let i = 0; i < bars.length; i++) {
-        const value = dataArray[i] || 0;
-        const height = Math.max(4, (value / 255) * 50);
-        bars[i].style.height = height + "px";
-      }
+    const renewed = session.options.conversation
+      ? await updateOpenSession(sessionId, () => ({}))
+      : await updateSession(sessionId, (current) => current.status === "reviewing" ? {} : null);
+    if (!renewed) {
+      return new Response(
+        JSON.stringify({ status: session.status, endedBy: session.endedBy }),
+        { headers: { "Content-Type": "application/json", ...corsHeaders } }
+      );
     }
+    const { exp, sig } = await linkSigner.sign(sessionId, config.auth.recordLinkTtlMs);
+    return new Response(
+      JSON.stringify({ status: renewed.status, exp, sig }),
+      { headers: { "Content-Type": "application/json", ...corsHeaders } }
+    );
+  }
 
-    async function convertToWav(blob) {
-      const arrayBuffer = await blob.arrayBuffer();
-      const audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
-      
-      const numChannels = 1;
-      const sampleRate = audioBuffer.sampleRate;
-      const format = 1;
-      const bitDepth = 16;
-      
-      const data = audioBuffer.getChannelData(0);
-      const dataLength = data.length * (bitDepth / 8);
-      const headerLength = 44;
-      const totalLength = headerLength + dataLength;
-      
-      const arrayBuffer2 = new ArrayBuffer(totalLength);
-      const view = new DataView(arrayBuffer2);
-      
-      writeString(view, 0, 'RIFF');
-      view.setUint32(4, totalLength - 8, true);
-      writeString(view, 8, 'WAVE');
-      writeString(view, 12, 'fmt ');
-      view.setUint32(16, 16, true);
-      view.setUint16(20, format, true);
-      view.setUint16(22, numChannels, true);
-      view.setUint32(24, sampleRate, true);
-      view.setUint32(28, sampleRate * numChannels * (bitDepth / 8), true);
-      view.setUint16(32, numChannels * (bitDepth / 8), true);
-      view.setUint16(34, bitDepth, true);
-      writeString(view, 36, 'data');
-      view.setUint32(40, dataLength, true);
-      
-      floatTo16BitPCM(view, 44, data);
-      
-      return new Blob([arrayBuffer2], { type: 'audio/wav' });
-    }
-    
-    function writeString(view, offset, string) {
-      for (let i = 0; i < string.length; i++) {
-        view.setUint8(offset + i, string.charCodeAt(i));
-      }
+  if (pathname.startsWith("/api/end/") && req.method === "POST") {
+    const sessionId = pathname.replace("/api/end/", "");
+    if (!isValidSessionId(sessionId) || await verifyRecordLink(sessionId, url) !== "valid") {
+      return invalidLinkResponse();
     }
-    
-    function floatTo16BitPCM(view, offset, input) {
-      for (let i = 0; i < input.length; i++, offset += 2) {
-        const s = Math.max(-1, Math.min(1, input[i]));
-        view.setInt16(offset, s < 0 ? s * 0x8000 : s * 0x7FFF, true);
-      }
+    const ended = await endConversation(sessionId, "user");
+    if (!ended) {
+      return new Response(
+        JSON.stringify({ error: "No open conversation for this session", code: "not_conversation" }),
+        { status: 409, headers: { "Content-Type": "application/json", ...corsHeaders } }
+      );
     }
+    return new Response(
+      JSON.stringify({ success: true, utterances: ended.utteranceCount ?? 0 }),
+      { headers: { "Content-Type": "application/json", ...corsHeaders } }
+    );
+  }
 
-    async function uploadAudio(blob) {
-      try {
-        statusEl.innerHTML = '<span class="loading"></span>转换格式中...';
-        
-        const wavBlob = await convertToWav(blob);
-        
-        statusEl.innerHTML = '<span class="loading"></span>正在转写...';
-        
-        const response = await fetch(\`/api/upload/\${sessionId}\`, {
-          method: "POST",
-          body: wavBlob
-        });
+  if (pathname.startsWith("/api/stream/")) {
+    const sessionId = pathname.replace("/api/stream/", "");
+    if (!isValidSessionId(sessionId) || await verifyRecordLink(sessionId, url) !== "valid") {
+      return invalidLinkResponse();
+    }
+    if (req.headers.get("Upgrade")?.toLowerCase() !== "websocket") {
+      return new Response(
+        JSON.stringify({ error: "Expected a WebSocket upgrade", code: "upgrade_required" }),
+        { status: 426, headers: { "Content-Type": "application/json", ...corsHeaders } }
+      );
+    }
 
-        const data = await response.json();
-
-        if (data.success) {
-          statusEl.textContent = "✅ 转写完成";
-          statusEl.classList.remove("recording");
-          statusEl.classList.add("success");
-          resultText.textContent = data.result;
-          resultBox.classList.remove("hidden");
-        } else {
-          throw new Error(data.error || "转写失败");
-        }
-      } catch (err) {
-        console.error("Upload error:", err);
-        statusEl.textContent = "❌ 转写失败";
-        statusEl.classList.add("error");
-        resultText.textContent = err.message;
-        resultBox.classList.remove("hidden");
-      }
+    const session = await transitionSession(sessionId, "recording") ?? await getSession(sessionId);
+    if (!session || session.status !== "recording") {
+      return new Response(
+        JSON.stringify({ error: "Session is not accepting audio", code: "already_uploaded" }),
+        { status: 409, headers: { "Content-Type": "application/json", ...corsHeaders } }
+      );
     }
 
-    micIcon.addEventListener("click", () => {
-      if (isRecording) {
-        stopRecording();
-      } else {
-        startRecording();
+    const client: Client = { key: session.client ?? ANONYMOUS_CLIENT, ip };
+    try {
+      await rateLimiter.consume("uploads", client);
+    } catch (error) {
+      if (error instanceof RateLimitError) {
+        uploadsTotal.inc({ source: "stream", outcome: error.code });
+        return rateLimitedResponse(error);
       }
-    });
+      throw error;
+    }
 
-    document.addEventListener("keydown", (e) => {
-      if (e.code === "Space" && !e.repeat) {
-        e.preventDefault();
-        if (!isRecording) {
-          startRecording();
+    const { socket, response } = Deno.upgradeWebSocket(req);
+    handleTranscriptionStream(socket, {
+      provider,
+      transcriptionOptions: transcriptionOptionsFor(session.options),
+      ...config.stream,
+      silenceThresholdDb: config.normalize.silenceThresholdDb,
+      maxDurationMs: config.upload.maxAudioMs,
+      // Interim hypotheses are provider calls too and count against the quota
+      chargePartial: async (seconds) => {
+        await rateLimiter.checkAudioQuota(client.key, seconds);
+        await rateLimiter.recordAudio(client.key, seconds);
+      },
+      finalize: async (streamed) => {
+        const normalized = normalizePcm({ samples: streamed, sampleRate: TARGET_SAMPLE_RATE }, config.normalize);
+        // Over quota the session stays open, so the recording can be sent again later
+        await rateLimiter.checkAudioQuota(client.key, normalized.durationMs / 1000);
+        const audioInfo: AudioInfo = {
+          format: "wav",
+          mimeType: "audio/wav",
+          durationMs: normalized.durationMs,
+          sampleRate: TARGET_SAMPLE_RATE,
+          channels: 1,
+        };
+        if (session.options?.conversation) {
+          return await addUtterance(session, normalized.data, audioInfo, normalized.samples, "stream");
         }
-      }
-    });
-
-    document.addEventListener("keyup", (e) => {
-      if (e.code === "Space") {
-        e.preventDefault();
-        if (isRecording) {
-          stopRecording();
+        if (!await transitionSession(sessionId, "processing")) {
+          throw new Error("Recording already uploaded");
         }
-      }
+        return await completeSession(session, normalized.data, audioInfo, normalized.samples, "stream");
+      },
     });
-  </script>
-</body>
-</html>`;
+    return response;
+  }
+
+  if (pathname.startsWith("/api/status/")) {
+    const sessionId = pathname.replace("/api/status/", "");
+    if (!isValidSessionId(sessionId) || await verifyRecordLink(sessionId, url) !== "valid") {
+      return invalidLinkResponse();
+    }
+    const session = await getSession(sessionId);
+
+    if (!session) {
+      return new Response(
+        JSON.stringify({ error: "Session not found" }),
+        { status: 404, headers: { "Content-Type": "application/json", ...corsHeaders } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ status: session.status, result: session.result, segments: session.segments, error: session.error }),
+      { headers: { "Content-Type": "application/json", ...corsHeaders } }
+    );
+  }
+
+  if (pathname === "/") {
+    const locale = negotiateLocale(req, config.defaultLocale);
+    return htmlResponse((nonce) =>
+      generateMessagePage("🎤", "OpenCode Voice", messagesFor(locale).pages.landingMessage, nonce, locale)
+    );
+  }
+
+  return new Response("Not Found", { status: 404, headers: corsHeaders });
 }
 
-const port = parseInt(Deno.env.get("PORT") || "8000");
-console.log(`🎤 OpenCode Voice MCP Server running on port ${port}`);
+const { port } = config;
+logger.info("server started", {
+  port,
+  publicBaseUrl: config.publicBaseUrl,
+  provider: provider.name,
+  model: provider.model,
+  storage: config.storage.backend,
+});
+if (apiKeys.length === 0) {
+  logger.warn("MCP_API_KEYS is not set: /mcp and /metrics accept unauthenticated requests");
+}
+const configurationProblem = provider.checkConfiguration();
+if (configurationProblem) {
+  logger.warn("provider is not ready", { provider: provider.name, problem: configurationProblem });
+}
 Deno.serve({ port }, handler);
@@ -0,0 +1,189 @@
+/**
+ * Prometheus metrics
+ *
+ * Counters and histograms kept in memory and rendered in the Prometheus
+ * text exposition format on /metrics. Values are per process (per isolate
+ * on Deno Deploy), like the SSE streams.
+ */
+
+import type { SpeechOptions, SpeechProvider, SynthesizedSpeech } from "./speech.ts";
+import {
+  TranscriptionError,
+  type TranscriptionOptions,
+  type TranscriptionProvider,
+  type TranscriptionResult,
+} from "./transcription.ts";
+
+type Labels = Record<string, string>;
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabel(value)}"`);
+  return pairs.length ? `{${pairs.join(",")}}` : "";
+}
+
+// Series are keyed by their label set, in a stable order
+function seriesKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+interface Metric {
+  render(): string[];
+}
+
+const registry: Metric[] = [];
+
+class Counter implements Metric {
+  private series = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(private name: string, private help: string) {
+    registry.push(this);
+  }
+
+  inc(labels: Labels = {}, value = 1): void {
+    const key = seriesKey(labels);
+    const series = this.series.get(key) ?? { labels, value: 0 };
+    series.value += value;
+    this.series.set(key, series);
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} counter`,
+      ...[...this.series.values()].map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`),
+    ];
+  }
+}
+
+class Histogram implements Metric {
+  private series = new Map<string, { labels: Labels; buckets: number[]; sum: number; count: number }>();
+
+  constructor(private name: string, private help: string, private bounds: number[]) {
+    registry.push(this);
+  }
+
+  observe(value: number, labels: Labels = {}): void {
+    const key = seriesKey(labels);
+    const series = this.series.get(key) ?? { labels, buckets: this.bounds.map(() => 0), sum: 0, count: 0 };
+    this.bounds.forEach((bound, i) => {
+      if (value <= bound) {
+        series.buckets[i]++;
+      }
+    });
+    series.sum += value;
+    series.count++;
+    this.series.set(key, series);
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    for (const { labels, buckets, sum, count } of this.series.values()) {
+      this.bounds.forEach((bound, i) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${buckets[i]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines;
+  }
+}
+
+export const sessionsTotal = new Counter(
+  "voice_sessions_total",
+  "Recording sessions that reached a final status, by status",
+);
+
+export const waitTimeoutsTotal = new Counter(
+  "voice_wait_timeouts_total",
+  "Result waits that ended before the recording finished",
+);
+
+export const uploadsTotal = new Counter(
+  "voice_uploads_total",
+  "Recordings received over upload or stream, by source and outcome",
+);
+
+export const mcpRequestsTotal = new Counter(
+  "mcp_requests_total",
+  "MCP JSON-RPC requests by method",
+);
+
+export const providerDuration = new Histogram(
+  "voice_provider_request_duration_seconds",
+  "Transcription provider call latency including retries, by provider and outcome",
+  [0.25, 0.5, 1, 2, 5, 10, 20, 30, 60, 120],
+);
+
+export const speechDuration = new Histogram(
+  "voice_speech_request_duration_seconds",
+  "Text-to-speech provider call latency including retries, by provider and outcome",
+  [0.25, 0.5, 1, 2, 5, 10, 20, 30, 60, 120],
+);
+
+export const audioDuration = new Histogram(
+  "voice_audio_duration_seconds",
+  "Duration of transcribed recordings",
+  [1, 5, 10, 30, 60, 120, 300, 600],
+);
+
+export function renderMetrics(): string {
+  return registry.flatMap((metric) => metric.render()).join("\n") + "\n";
+}
+
+// Record the latency and outcome (ok or the error code) of every provider call
+export function instrumentProvider(provider: TranscriptionProvider): TranscriptionProvider {
+  return {
+    get name() {
+      return provider.name;
+    },
+    get model() {
+      return provider.model;
+    },
+    checkConfiguration: () => provider.checkConfiguration(),
+    async transcribe(audioData: Uint8Array<ArrayBuffer>, options?: TranscriptionOptions): Promise<TranscriptionResult> {
+      const start = performance.now();
+      let outcome = "ok";
+      try {
+        return await provider.transcribe(audioData, options);
+      } catch (error) {
+        outcome = error instanceof TranscriptionError ? error.code : "error";
+        throw error;
+      } finally {
+        providerDuration.observe((performance.now() - start) / 1000, { provider: provider.name, outcome });
+      }
+    },
+  };
+}
+
+// The same for text-to-speech calls
+export function instrumentSpeechProvider(provider: SpeechProvider): SpeechProvider {
+  return {
+    get name() {
+      return provider.name;
+    },
+    get model() {
+      return provider.model;
+    },
+    get voice() {
+      return provider.voice;
+    },
+    checkConfiguration: () => provider.checkConfiguration(),
+    async synthesize(text: string, options?: SpeechOptions): Promise<SynthesizedSpeech> {
+      const start = performance.now();
+      let outcome = "ok";
+      try {
+        return await provider.synthesize(text, options);
+      } catch (error) {
+        outcome = error instanceof TranscriptionError ? error.code : "error";
+        throw error;
+      } finally {
+        speechDuration.observe((performance.now() - start) / 1000, { provider: provider.name, outcome });
+      }
+    },
+  };
+}
@@ -0,0 +1,217 @@
+/**
+ * Server-side audio normalization
+ *
+ * Decodes PCM WAV of any sample rate and bit depth, downmixes to mono,
+ * resamples to 16 kHz and trims leading/trailing silence with an
+ * energy-based VAD before the audio is sent to a provider.
+ */
+
+import { AudioValidationError, parseWavHeader } from "./audio.ts";
+
+export const TARGET_SAMPLE_RATE = 16000;
+
+// VAD analysis window
+const FRAME_MS = 30;
+
+export interface PcmAudio {
+  // Mono samples in [-1, 1]
+  samples: Float32Array;
+  sampleRate: number;
+}
+
+export interface NormalizeOptions {
+  // Frames quieter than this (dBFS RMS) count as silence
+  silenceThresholdDb: number;
+  // Silence kept around the detected speech
+  paddingMs: number;
+}
+
+export interface NormalizedAudio {
+  data: Uint8Array<ArrayBuffer>;
+  // Trimmed 16 kHz mono samples behind `data`
+  samples: Float32Array;
+  durationMs: number;
+  originalDurationMs: number;
+}
+
+// Decode a PCM or IEEE-float WAV and downmix it to mono.
+// Returns null for encodings we can't decode (A-law, ADPCM, ...).
+export function decodeWav(audioData: Uint8Array): PcmAudio | null {
+  const info = parseWavHeader(audioData);
+  if (!info) {
+    return null;
+  }
+
+  const { encoding, channels, bitsPerSample, sampleRate } = info;
+  const bytesPerSample = bitsPerSample / 8;
+  const isInteger = encoding === 1 && [8, 16, 24, 32].includes(bitsPerSample);
+  const isFloat = encoding === 3 && [32, 64].includes(bitsPerSample);
+  if ((!isInteger && !isFloat) || channels === 0 || sampleRate === 0) {
+    return null;
+  }
+
+  const view = new DataView(audioData.buffer, audioData.byteOffset + info.dataOffset, info.dataLength);
+  const frameSize = bytesPerSample * channels;
+  const frameCount = Math.floor(info.dataLength / frameSize);
+  const samples = new Float32Array(frameCount);
+
+  const readSample = (offset: number): number => {
+    if (isFloat) {
+      return bitsPerSample === 32 ? view.getFloat32(offset, true) : view.getFloat64(offset, true);
+    }
+    switch (bitsPerSample) {
+      case 8:
+        return (view.getUint8(offset) - 128) / 128;
+      case 16:
+        return view.getInt16(offset, true) / 32768;
+      case 24: {
+        const value = view.getUint8(offset) | (view.getUint8(offset + 1) << 8) | (view.getInt8(offset + 2) << 16);
+        return value / 8388608;
+      }
+      default:
+        return view.getInt32(offset, true) / 2147483648;
+    }
+  };
+
+  for (let i = 0; i < frameCount; i++) {
+    let sum = 0;
+    for (let channel = 0; channel < channels; channel++) {
+      sum += readSample(i * frameSize + channel * bytesPerSample);
+    }
+    samples[i] = sum / channels;
+  }
+
+  return { samples, sampleRate };
+}
+
+// Resample with linear interpolation. When downsampling, a moving-average
+// low-pass over one input period keeps the worst aliasing out.
+export function resample(samples: Float32Array, fromRate: number, toRate: number): Float32Array {
+  if (fromRate === toRate || samples.length === 0) {
+    return samples;
+  }
+
+  const ratio = fromRate / toRate;
+  let source = samples;
+
+  if (ratio > 1) {
+    const width = Math.ceil(ratio);
+    source = new Float32Array(samples.length);
+    let sum = 0;
+    for (let i = 0; i < samples.length; i++) {
+      sum += samples[i];
+      if (i >= width) {
+        sum -= samples[i - width];
+      }
+      source[i] = sum / Math.min(i + 1, width);
+    }
+  }
+
+  const outputLength = Math.floor(samples.length / ratio);
+  const output = new Float32Array(outputLength);
+  for (let i = 0; i < outputLength; i++) {
+    const position = i * ratio;
+    const index = Math.floor(position);
+    const next = Math.min(index + 1, source.length - 1);
+    const fraction = position - index;
+    output[i] = source[index] * (1 - fraction) + source[next] * fraction;
+  }
+  return output;
+}
+
+// RMS level of each FRAME_MS frame, in dBFS
+export function frameLevels(samples: Float32Array, sampleRate: number): { frameSize: number; levels: number[] } {
+  const frameSize = Math.max(1, Math.round((sampleRate * FRAME_MS) / 1000));
+  const levels: number[] = [];
+
+  for (let start = 0; start < samples.length; start += frameSize) {
+    const end = Math.min(start + frameSize, samples.length);
+    let energy = 0;
+    for (let i = start; i < end; i++) {
+      energy += samples[i] * samples[i];
+    }
+    const rms = Math.sqrt(energy / (end - start));
+    levels.push(rms > 0 ? 20 * Math.log10(rms) : -Infinity);
+  }
+
+  return { frameSize, levels };
+}
+
+// Sample range [start, end) that holds speech, or null when it is all silence
+export function detectSpeech(
+  samples: Float32Array,
+  sampleRate: number,
+  options: NormalizeOptions,
+): { start: number; end: number } | null {
+  const { frameSize, levels } = frameLevels(samples, sampleRate);
+  const first = levels.findIndex((level) => level > options.silenceThresholdDb);
+  if (first === -1) {
+    return null;
+  }
+  const last = levels.findLastIndex((level) => level > options.silenceThresholdDb);
+
+  const padding = Math.round((sampleRate * options.paddingMs) / 1000);
+  return {
+    start: Math.max(0, first * frameSize - padding),
+    end: Math.min(samples.length, (last + 1) * frameSize + padding),
+  };
+}
+
+// Encode mono samples as 16-bit PCM WAV
+export function encodeWav(samples: Float32Array, sampleRate: number): Uint8Array<ArrayBuffer> {
+  const dataLength = samples.length * 2;
+  const buffer = new ArrayBuffer(44 + dataLength);
+  const view = new DataView(buffer);
+
+  const writeTag = (offset: number, tag: string) => {
+    for (let i = 0; i < tag.length; i++) {
+      view.setUint8(offset + i, tag.charCodeAt(i));
+    }
+  };
+
+  writeTag(0, "RIFF");
+  view.setUint32(4, 36 + dataLength, true);
+  writeTag(8, "WAVE");
+  writeTag(12, "fmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, 1, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeTag(36, "data");
+  view.setUint32(40, dataLength, true);
+
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(44 + i * 2, s < 0 ? s * 0x8000 : s * 0x7fff, true);
+  }
+
+  return new Uint8Array(buffer);
+}
+
+// Resample decoded mono audio to 16 kHz and trim silence.
+// Throws AudioValidationError("silent_audio") when there is no speech at all.
+export function normalizePcm(audio: PcmAudio, options: NormalizeOptions): NormalizedAudio {
+  const samples = resample(audio.samples, audio.sampleRate, TARGET_SAMPLE_RATE);
+  const speech = detectSpeech(samples, TARGET_SAMPLE_RATE, options);
+  if (!speech) {
+    throw new AudioValidationError("silent_audio", 422, "Recording contains only silence");
+  }
+
+  const trimmed = samples.subarray(speech.start, speech.end);
+  return {
+    data: encodeWav(trimmed, TARGET_SAMPLE_RATE),
+    samples: trimmed,
+    durationMs: Math.round((trimmed.length / TARGET_SAMPLE_RATE) * 1000),
+    originalDurationMs: Math.round((audio.samples.length / audio.sampleRate) * 1000),
+  };
+}
+
+// Full pipeline for uploads: decode and downmix the WAV, then normalizePcm.
+// Returns null when the WAV encoding can't be decoded.
+export function normalizeWav(audioData: Uint8Array, options: NormalizeOptions): NormalizedAudio | null {
+  const decoded = decodeWav(audioData);
+  return decoded ? normalizePcm(decoded, options) : null;
+}
@@ -0,0 +1,94 @@
+import assert from "node:assert/strict";
+import { AudioValidationError } from "./audio.ts";
+import { decodeWav, detectSpeech, encodeWav, frameLevels, normalizeWav, resample } from "./normalize.ts";
+
+const OPTIONS = { silenceThresholdDb: -45, paddingMs: 100 };
+
+// `seconds` of a 440 Hz tone at `amplitude`, or silence when it is 0
+function tone(seconds: number, sampleRate: number, amplitude = 0.5): Float32Array {
+  return Float32Array.from(
+    { length: Math.round(seconds * sampleRate) },
+    (_, i) => amplitude * Math.sin((2 * Math.PI * 440 * i) / sampleRate),
+  );
+}
+
+function concat(...parts: Float32Array[]): Float32Array {
+  const joined = new Float32Array(parts.reduce((length, part) => length + part.length, 0));
+  parts.reduce((offset, part) => (joined.set(part, offset), offset + part.length), 0);
+  return joined;
+}
+
+Deno.test("encodeWav and decodeWav round trip", () => {
+  const samples = Float32Array.from([0, 0.5, -0.5, 1, -1]);
+  const decoded = decodeWav(encodeWav(samples, 8000));
+  assert.ok(decoded);
+  assert.equal(decoded.sampleRate, 8000);
+  assert.equal(decoded.samples.length, samples.length);
+  decoded.samples.forEach((sample, i) => assert.ok(Math.abs(sample - samples[i]) < 1e-3));
+});
+
+Deno.test("decodeWav downmixes stereo", () => {
+  // 16-bit stereo: turn the mono header into a two-channel one
+  const wav = encodeWav(Float32Array.from([0.5, -0.5, 0.25, 0.25]), 8000);
+  const view = new DataView(wav.buffer);
+  view.setUint16(22, 2, true);
+  view.setUint32(28, 8000 * 4, true);
+  view.setUint16(32, 4, true);
+
+  const decoded = decodeWav(wav);
+  assert.ok(decoded);
+  assert.equal(decoded.samples.length, 2);
+  assert.ok(Math.abs(decoded.samples[0]) < 1e-3);
+  assert.ok(Math.abs(decoded.samples[1] - 0.25) < 1e-3);
+});
+
+Deno.test("decodeWav rejects what it can't decode", () => {
+  assert.equal(decodeWav(new TextEncoder().encode("not a wav file at all, not even close")), null);
+  const wav = encodeWav(new Float32Array(4), 8000);
+  new DataView(wav.buffer).setUint16(20, 6, true); // A-law
+  assert.equal(decodeWav(wav), null);
+});
+
+Deno.test("resample", () => {
+  const samples = tone(1, 48000);
+  assert.equal(resample(samples, 48000, 48000), samples);
+  assert.equal(resample(samples, 48000, 16000).length, 16000);
+  assert.equal(resample(tone(1, 8000), 8000, 16000).length, 16000);
+});
+
+Deno.test("frameLevels", () => {
+  const { frameSize, levels } = frameLevels(concat(tone(0.3, 16000, 0), tone(0.3, 16000)), 16000);
+  assert.equal(frameSize, 480);
+  assert.equal(levels.length, 20);
+  assert.equal(levels[0], -Infinity);
+  // A sine at 0.5 has an RMS of about -9 dBFS
+  assert.ok(Math.abs(levels[15] - -9) < 0.5);
+});
+
+Deno.test("detectSpeech pads the loud part", () => {
+  const samples = concat(tone(0.6, 16000, 0), tone(0.3, 16000), tone(0.6, 16000, 0));
+  const speech = detectSpeech(samples, 16000, OPTIONS);
+  assert.ok(speech);
+  assert.equal(speech.start, 0.6 * 16000 - 1600);
+  assert.equal(speech.end, 0.9 * 16000 + 1600);
+  assert.equal(detectSpeech(tone(1, 16000, 0), 16000, OPTIONS), null);
+});
+
+Deno.test("normalizeWav", async (t) => {
+  await t.step("resamples to 16 kHz and trims silence", () => {
+    const samples = concat(tone(1.2, 44100, 0), tone(0.6, 44100), tone(1.2, 44100, 0));
+    const normalized = normalizeWav(encodeWav(samples, 44100), OPTIONS);
+    assert.ok(normalized);
+    assert.equal(normalized.originalDurationMs, 3000);
+    assert.ok(Math.abs(normalized.durationMs - 800) <= 30);
+    assert.equal(normalized.samples.length, (normalized.data.length - 44) / 2);
+    assert.equal(decodeWav(normalized.data)?.sampleRate, 16000);
+  });
+
+  await t.step("rejects silence", () => {
+    assert.throws(
+      () => normalizeWav(encodeWav(tone(1, 16000, 0), 16000), OPTIONS),
+      (error) => error instanceof AudioValidationError && error.code === "silent_audio",
+    );
+  });
+});
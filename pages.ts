@@ -0,0 +1,1059 @@
+/**
+ * HTML pages
+ *
+ * The browser recorder plus the small status pages shown for unknown,
+ * expired or already-used recording links. Every page is served with a
+ * nonce-based CSP and the usual security headers.
+ */
+
+import { type Locale, messagesFor } from "./i18n.ts";
+
+// Escape text for HTML element content and attribute values
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+// Serialize a value for embedding inside an inline <script>
+function jsonForScript(value: unknown): string {
+  return JSON.stringify(value)
+    .replace(/</g, "\\u003c")
+    .replace(/\u2028/g, "\\u2028")
+    .replace(/\u2029/g, "\\u2029");
+}
+
+// Serve a page rendered with a fresh CSP nonce
+export function htmlResponse(render: (nonce: string) => string, status = 200): Response {
+  const nonce = crypto.randomUUID().replace(/-/g, "");
+  const csp = [
+    "default-src 'none'",
+    `script-src 'nonce-${nonce}'`,
+    `style-src 'nonce-${nonce}'`,
+    "connect-src 'self'",
+    "media-src 'self' blob:",
+    "img-src 'self' data:",
+    "base-uri 'none'",
+    "form-action 'none'",
+    "frame-ancestors 'none'",
+  ].join("; ");
+
+  return new Response(render(nonce), {
+    status,
+    headers: {
+      "Content-Type": "text/html; charset=utf-8",
+      "Content-Security-Policy": csp,
+      "X-Content-Type-Options": "nosniff",
+      "X-Frame-Options": "DENY",
+      // Recording links carry their signature in the query string
+      "Referrer-Policy": "no-referrer",
+      "Permissions-Policy": "microphone=(self), camera=(), geolocation=()",
+      "Cache-Control": "no-store",
+    },
+  });
+}
+
+// Standalone message page (unknown / expired / used links, landing page)
+export function generateMessagePage(
+  icon: string,
+  title: string,
+  message: string,
+  nonce: string,
+  locale: Locale,
+): string {
+  return `<!DOCTYPE html>
+<html lang="${locale}">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(icon)} ${escapeHtml(title)}</title>
+  <style nonce="${nonce}">
+${pageStyles}  </style>
+</head>
+<body>
+  <div class="container">
+    <h1>${escapeHtml(icon)} ${escapeHtml(title)}</h1>
+    <p class="message">${escapeHtml(message)}</p>
+  </div>
+</body>
+</html>`;
+}
+
+const pageStyles = `    * { margin: 0; padding: 0; box-sizing: border-box; }
+    
+    body {
+      font-family: -apple-system, BlinkMacSystemFont, 'SF Pro Display', 'SF Pro Text', 'Segoe UI', Roboto, sans-serif;
+      min-height: 100vh;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      color: #fff;
+      background: linear-gradient(145deg, #0f0c29 0%, #1a1a3e 50%, #24243e 100%);
+      overflow: hidden;
+      -webkit-font-smoothing: antialiased;
+    }
+    
+    body::before {
+      content: '';
+      position: fixed;
+      top: -50%;
+      left: -50%;
+      width: 200%;
+      height: 200%;
+      background: 
+        radial-gradient(ellipse at 20% 20%, rgba(139, 92, 246, 0.15) 0%, transparent 50%),
+        radial-gradient(ellipse at 80% 80%, rgba(168, 85, 247, 0.1) 0%, transparent 50%),
+        radial-gradient(ellipse at 50% 50%, rgba(126, 34, 206, 0.08) 0%, transparent 60%);
+      animation: bgFloat 20s ease-in-out infinite;
+      pointer-events: none;
+    }
+    
+    @keyframes bgFloat {
+      0%, 100% { transform: translate(0, 0) rotate(0deg); }
+      33% { transform: translate(2%, 2%) rotate(1deg); }
+      66% { transform: translate(-1%, 1%) rotate(-1deg); }
+    }
+    
+    .container {
+      position: relative;
+      text-align: center;
+      padding: 48px 40px;
+      max-width: 420px;
+      width: 90%;
+      background: rgba(255, 255, 255, 0.03);
+      backdrop-filter: blur(40px);
+      -webkit-backdrop-filter: blur(40px);
+      border-radius: 32px;
+      border: 1px solid rgba(255, 255, 255, 0.08);
+      box-shadow: 
+        0 8px 32px rgba(0, 0, 0, 0.3),
+        inset 0 1px 0 rgba(255, 255, 255, 0.1);
+    }
+    
+    .container::before {
+      content: '';
+      position: absolute;
+      top: 0;
+      left: 0;
+      right: 0;
+      height: 50%;
+      background: linear-gradient(180deg, rgba(255, 255, 255, 0.06) 0%, transparent 100%);
+      border-radius: 32px 32px 0 0;
+      pointer-events: none;
+    }
+    
+    h1 {
+      font-size: 28px;
+      font-weight: 600;
+      margin-bottom: 8px;
+      color: #fff;
+      letter-spacing: -0.5px;
+      position: relative;
+      z-index: 1;
+    }
+    
+    .subtitle {
+      font-size: 15px;
+      color: rgba(255, 255, 255, 0.5);
+      margin-bottom: 40px;
+      font-weight: 400;
+      position: relative;
+      z-index: 1;
+    }
+    
+    .mic-container {
+      position: relative;
+      width: 140px;
+      height: 140px;
+      margin: 0 auto 32px;
+      z-index: 1;
+    }
+    
+    .mic-ring {
+      position: absolute;
+      top: -10px;
+      left: -10px;
+      right: -10px;
+      bottom: -10px;
+      border-radius: 50%;
+      border: 2px solid transparent;
+      background: linear-gradient(145deg, rgba(139, 92, 246, 0.3), rgba(168, 85, 247, 0.1)) border-box;
+      -webkit-mask: linear-gradient(#fff 0 0) padding-box, linear-gradient(#fff 0 0);
+      mask: linear-gradient(#fff 0 0) padding-box, linear-gradient(#fff 0 0);
+      -webkit-mask-composite: xor;
+      mask-composite: exclude;
+      opacity: 0;
+      transition: opacity 0.3s ease;
+    }
+    
+    .mic-container:hover .mic-ring {
+      opacity: 1;
+    }
+    
+    .mic-icon {
+      width: 140px;
+      height: 140px;
+      border-radius: 50%;
+      background: linear-gradient(145deg, rgba(139, 92, 246, 0.9), rgba(126, 34, 206, 0.9));
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      font-size: 56px;
+      cursor: pointer;
+      transition: all 0.4s cubic-bezier(0.175, 0.885, 0.32, 1.275);
+      box-shadow: 
+        0 10px 40px rgba(139, 92, 246, 0.4),
+        0 0 0 1px rgba(255, 255, 255, 0.1) inset;
+      position: relative;
+      overflow: hidden;
+    }
+    
+    .mic-icon::before {
+      content: '';
+      position: absolute;
+      top: 0;
+      left: 0;
+      right: 0;
+      height: 50%;
+      background: linear-gradient(180deg, rgba(255, 255, 255, 0.2) 0%, transparent 100%);
+      border-radius: 50% 50% 0 0;
+    }
+    
+    .mic-icon:hover {
+      transform: scale(1.08);
+      box-shadow: 
+        0 15px 50px rgba(139, 92, 246, 0.5),
+        0 0 0 1px rgba(255, 255, 255, 0.15) inset;
+    }
+    
+    .mic-icon:active {
+      transform: scale(0.95);
+    }
+    
+    .mic-icon.recording {
+      background: linear-gradient(145deg, rgba(236, 72, 153, 0.95), rgba(219, 39, 119, 0.95));
+      box-shadow: 
+        0 10px 40px rgba(236, 72, 153, 0.5),
+        0 0 0 1px rgba(255, 255, 255, 0.15) inset;
+      animation: recordPulse 1.5s ease-in-out infinite;
+    }
+    
+    @keyframes recordPulse {
+      0%, 100% { 
+        transform: scale(1);
+        box-shadow: 
+          0 10px 40px rgba(236, 72, 153, 0.5),
+          0 0 0 0 rgba(236, 72, 153, 0.4);
+      }
+      50% { 
+        transform: scale(1.05);
+        box-shadow: 
+          0 15px 50px rgba(236, 72, 153, 0.6),
+          0 0 0 20px rgba(236, 72, 153, 0);
+      }
+    }
+    
+    .mic-icon .emoji {
+      filter: drop-shadow(0 2px 8px rgba(0, 0, 0, 0.3));
+      position: relative;
+      z-index: 1;
+    }
+    
+    .visualizer {
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      gap: 3px;
+      height: 50px;
+      margin-bottom: 24px;
+      position: relative;
+      z-index: 1;
+    }
+    
+    .bar {
+      width: 3px;
+      background: linear-gradient(to top, #a855f7, #ec4899);
+      border-radius: 3px;
+      transition: height 0.08s ease;
+      box-shadow: 0 0 10px rgba(168, 85, 247, 0.5);
+    }
+    
+    .status {
+      font-size: 17px;
+      color: rgba(255, 255, 255, 0.7);
+      margin-bottom: 24px;
+      min-height: 24px;
+      font-weight: 500;
+      transition: all 0.3s ease;
+      position: relative;
+      z-index: 1;
+    }
+    
+    .status.recording {
+      color: #ec4899;
+    }
+    
+    .status.success {
+      color: #10b981;
+    }
+    
+    .status.error {
+      color: #f43f5e;
+    }
+    
+    .result-box {
+      background: rgba(255, 255, 255, 0.05);
+      backdrop-filter: blur(20px);
+      -webkit-backdrop-filter: blur(20px);
+      border-radius: 20px;
+      padding: 20px 24px;
+      margin-top: 16px;
+      min-height: 80px;
+      text-align: left;
+      word-break: break-word;
+      border: 1px solid rgba(255, 255, 255, 0.08);
+      box-shadow: inset 0 1px 0 rgba(255, 255, 255, 0.05);
+      position: relative;
+      z-index: 1;
+    }
+    
+    .result-label {
+      font-size: 12px;
+      color: rgba(255, 255, 255, 0.4);
+      text-transform: uppercase;
+      letter-spacing: 1px;
+      margin-bottom: 8px;
+    }
+    
+    .result-text {
+      font-size: 16px;
+      line-height: 1.6;
+      color: rgba(255, 255, 255, 0.9);
+      font-weight: 400;
+    }
+    
+    .utterances div {
+      font-size: 16px;
+      line-height: 1.6;
+      color: rgba(255, 255, 255, 0.9);
+      padding: 4px 0;
+      border-bottom: 1px solid rgba(255, 255, 255, 0.06);
+    }
+    
+    .result-box.partial .result-text {
+      color: rgba(255, 255, 255, 0.55);
+    }
+    
+    .review textarea {
+      width: 100%;
+      min-height: 96px;
+      resize: vertical;
+      font: inherit;
+      font-size: 16px;
+      line-height: 1.6;
+      color: rgba(255, 255, 255, 0.9);
+      background: transparent;
+      border: none;
+      outline: none;
+    }
+    
+    .review audio,
+    .reply audio {
+      width: 100%;
+      margin-top: 16px;
+      position: relative;
+      z-index: 1;
+    }
+    
+    .actions {
+      display: flex;
+      gap: 12px;
+      margin-top: 16px;
+      position: relative;
+      z-index: 1;
+    }
+    
+    .actions button {
+      flex: 1;
+      padding: 12px 16px;
+      font: inherit;
+      font-size: 15px;
+      font-weight: 500;
+      color: #fff;
+      border-radius: 14px;
+      border: 1px solid rgba(255, 255, 255, 0.12);
+      background: rgba(255, 255, 255, 0.06);
+      cursor: pointer;
+    }
+    
+    .actions button.primary {
+      border-color: transparent;
+      background: linear-gradient(145deg, rgba(139, 92, 246, 0.9), rgba(126, 34, 206, 0.9));
+    }
+    
+    .actions button:disabled {
+      opacity: 0.5;
+      cursor: default;
+    }
+    
+    .hint {
+      font-size: 13px;
+      color: rgba(255, 255, 255, 0.35);
+      margin-top: 24px;
+      position: relative;
+      z-index: 1;
+    }
+    
+    .message {
+      font-size: 15px;
+      line-height: 1.6;
+      color: rgba(255, 255, 255, 0.6);
+      position: relative;
+      z-index: 1;
+    }
+    
+    .hints {
+      font-size: 13px;
+      color: rgba(255, 255, 255, 0.45);
+      margin: -28px 0 32px;
+      position: relative;
+      z-index: 1;
+    }
+    
+    .hidden {
+      display: none !important;
+    }
+    
+    .loading {
+      display: inline-block;
+      width: 20px;
+      height: 20px;
+      border: 2px solid rgba(255, 255, 255, 0.2);
+      border-top-color: #a855f7;
+      border-radius: 50%;
+      animation: spin 0.8s linear infinite;
+      margin-right: 8px;
+      vertical-align: middle;
+    }
+    
+    @keyframes spin {
+      to { transform: rotate(360deg); }
+    }
+`;
+
+// What the agent asked for: language and hotwords are shown under the
+// subtitle, review adds the playback / edit / confirm step, conversation
+// keeps the page open for many utterances
+export interface RecordingHints {
+  language?: string;
+  hotwords?: string[];
+  review?: boolean;
+  conversation?: boolean;
+}
+
+function renderHints(hints: RecordingHints, locale: Locale): string {
+  const { recorder } = messagesFor(locale);
+  const colon = locale === "zh-CN" ? "：" : ": ";
+  const parts: string[] = [];
+  if (hints.language && hints.language !== "auto") {
+    parts.push(`${recorder.languageHint}${colon}${recorder.languageNames[hints.language] ?? hints.language}`);
+  }
+  if (hints.hotwords?.length) {
+    parts.push(`${recorder.hotwordsHint}${colon}${hints.hotwords.join(recorder.hotwordSeparator)}`);
+  }
+  return parts.length ? `\n    <p class="hints">${escapeHtml(parts.join(" · "))}</p>` : "";
+}
+
+// Recorder for a waiting session
+export function generateRecordingPage(
+  sessionId: string,
+  nonce: string,
+  locale: Locale,
+  hints: RecordingHints = {},
+): string {
+  const { recorder } = messagesFor(locale);
+  return `<!DOCTYPE html>
+<html lang="${locale}">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0, user-scalable=no">
+  <title>🎤 ${escapeHtml(recorder.title)}</title>
+  <style nonce="${nonce}">
+${pageStyles}  </style>
+</head>
+<body>
+  <div class="container">
+    <h1>🎤 ${escapeHtml(recorder.title)}</h1>
+    <p class="subtitle">${escapeHtml(recorder.subtitle)}</p>${renderHints(hints, locale)}
+    
+    <div class="visualizer hidden" id="visualizer"></div>
+    
+    <div class="mic-container">
+      <div class="mic-ring"></div>
+      <div class="mic-icon" id="micIcon">
+        <span class="emoji">🎤</span>
+      </div>
+    </div>
+    
+    <div class="status" id="status">${escapeHtml(recorder.ready)}</div>
+    
+    <div class="result-box hidden" id="utterancesBox">
+      <div class="result-label">${escapeHtml(recorder.utterancesLabel)}</div>
+      <div class="utterances" id="utterances"></div>
+    </div>
+    
+    <div class="result-box hidden" id="resultBox">
+      <div class="result-label">${escapeHtml(recorder.resultLabel)}</div>
+      <div class="result-text" id="resultText"></div>
+    </div>
+    
+    <div class="review hidden" id="review">
+      <audio controls id="playback"></audio>
+      <div class="result-box">
+        <div class="result-label">${escapeHtml(recorder.reviewLabel)}</div>
+        <textarea id="reviewText" aria-label="${escapeHtml(recorder.reviewLabel)}"></textarea>
+      </div>
+      <div class="actions">
+        <button type="button" id="rerecordButton">${escapeHtml(recorder.rerecord)}</button>
+        <button type="button" class="primary" id="sendButton">${escapeHtml(recorder.send)}</button>
+      </div>
+    </div>
+    
+    <div class="reply hidden" id="replyBox">
+      <div class="result-label">${escapeHtml(recorder.replyLabel)}</div>
+      <audio controls id="replyPlayer"></audio>
+    </div>
+    
+    <div class="actions hidden" id="conversationActions">
+      <button type="button" id="endButton">${escapeHtml(recorder.endConversation)}</button>
+    </div>
+    
+    <div class="hint" id="hint">${escapeHtml(recorder.hint)}</div>
+  </div>
+
+  <script nonce="${nonce}">
+    const sessionId = ${jsonForScript(sessionId)};
+    const text = ${jsonForScript(recorder.script)};
+    const review = ${jsonForScript(hints.review === true)};
+    const conversation = ${jsonForScript(hints.conversation === true)};
+    // Conversation pages, and review pages awaiting confirmation, renew the
+    // session and their link this often
+    const HEARTBEAT_MS = 30000;
+    // How often to check for replies from the text-to-speech tool
+    const REPLY_POLL_MS = 2000;
+    let mediaRecorder = null;
+    let audioChunks = [];
+    let isRecording = false;
+    let audioContext = null;
+    let analyser = null;
+    let dataArray = null;
+    let visualizerInterval = null;
+    let liveSocket = null;
+    let pcmProcessor = null;
+    let pendingFrames = [];
+    let recordedBlob = null;
+    let streamSettled = false;
+    let ended = false;
+    let heartbeatInterval = null;
+    let replyCursor = 0;
+    let replyQueue = [];
+
+    const micIcon = document.getElementById("micIcon");
+    const statusEl = document.getElementById("status");
+    const resultBox = document.getElementById("resultBox");
+    const resultText = document.getElementById("resultText");
+    const hintEl = document.getElementById("hint");
+    const visualizerEl = document.getElementById("visualizer");
+    const reviewEl = document.getElementById("review");
+    const playback = document.getElementById("playback");
+    const reviewText = document.getElementById("reviewText");
+    const rerecordButton = document.getElementById("rerecordButton");
+    const sendButton = document.getElementById("sendButton");
+    const utterancesBox = document.getElementById("utterancesBox");
+    const utterancesEl = document.getElementById("utterances");
+    const endButton = document.getElementById("endButton");
+    const replyBox = document.getElementById("replyBox");
+    const replyPlayer = document.getElementById("replyPlayer");
+
+    for (let i = 0; i < 24; i++) {
+      const bar = document.createElement("div");
+      bar.className = "bar";
+      bar.style.height = "4px";
+      visualizerEl.appendChild(bar);
+    }
+    const bars = visualizerEl.querySelectorAll(".bar");
+
+    async function startRecording() {
+      if (ended) return;
+      try {
+        const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+        
+        audioContext = new AudioContext();
+        analyser = audioContext.createAnalyser();
+        const source = audioContext.createMediaStreamSource(stream);
+        source.connect(analyser);
+        analyser.fftSize = 64;
+        dataArray = new Uint8Array(analyser.frequencyBinCount);
+
+        mediaRecorder = new MediaRecorder(stream, { mimeType: "audio/webm" });
+        audioChunks = [];
+
+        mediaRecorder.ondataavailable = (e) => {
+          audioChunks.push(e.data);
+        };
+
+        mediaRecorder.onstop = async () => {
+          const audioBlob = new Blob(audioChunks, { type: "audio/webm" });
+          stream.getTracks().forEach(track => track.stop());
+          recordedBlob = audioBlob;
+          if (review) {
+            if (playback.src) {
+              URL.revokeObjectURL(playback.src);
+            }
+            playback.src = URL.createObjectURL(audioBlob);
+          }
+          // Without a live stream, fall back to uploading the whole recording
+          if (!isStreaming()) {
+            await uploadAudio(audioBlob);
+          }
+        };
+
+        // Keep the reply out of the recording
+        replyPlayer.pause();
+        mediaRecorder.start();
+        isRecording = true;
+        fetch(\`/api/recording/\${sessionId}\${location.search}\`, { method: "POST" }).catch(() => {});
+        startLiveStream(source);
+        
+        reviewEl.classList.add("hidden");
+        micIcon.classList.add("recording");
+        statusEl.textContent = text.recording;
+        statusEl.classList.add("recording");
+        visualizerEl.classList.remove("hidden");
+        hintEl.classList.add("hidden");
+        
+        visualizerInterval = setInterval(updateVisualizer, 80);
+        
+      } catch (err) {
+        console.error("Microphone access denied:", err);
+        statusEl.textContent = text.micDenied;
+        statusEl.classList.add("error");
+      }
+    }
+
+    function stopRecording() {
+      if (mediaRecorder && isRecording) {
+        if (pcmProcessor) {
+          pcmProcessor.disconnect();
+          pcmProcessor = null;
+        }
+        if (isStreaming()) {
+          liveSocket.send(JSON.stringify({ type: "stop" }));
+        }
+        mediaRecorder.stop();
+        isRecording = false;
+        
+        micIcon.classList.remove("recording");
+        showLoading(text.transcribing);
+        statusEl.classList.remove("recording");
+        visualizerEl.classList.add("hidden");
+        
+        if (visualizerInterval) {
+          clearInterval(visualizerInterval);
+          visualizerInterval = null;
+        }
+        playNextReply();
+      }
+    }
+
+    function isStreaming() {
+      return liveSocket !== null && liveSocket.readyState === WebSocket.OPEN;
+    }
+
+    // Live transcription: stream 16 kHz PCM while recording and show interim text
+    function startLiveStream(source) {
+      const protocol = location.protocol === "https:" ? "wss:" : "ws:";
+      const socket = new WebSocket(protocol + "//" + location.host + "/api/stream/" + sessionId + location.search);
+      socket.binaryType = "arraybuffer";
+      pendingFrames = [];
+      streamSettled = false;
+
+      socket.onopen = () => {
+        pendingFrames.forEach((frame) => socket.send(frame));
+        pendingFrames = [];
+      };
+
+      socket.onmessage = (event) => {
+        const message = JSON.parse(event.data);
+        if (message.type === "partial") {
+          resultText.textContent = (message.windowStartMs > 0 ? "…" : "") + message.text;
+          resultBox.classList.add("partial");
+          resultBox.classList.remove("hidden");
+        } else if (message.type === "final") {
+          streamSettled = true;
+          showTranscript(message.text);
+        } else if (message.type === "error") {
+          streamSettled = true;
+          showError(message.error);
+        }
+      };
+
+      socket.onclose = () => {
+        liveSocket = null;
+        // The stream dropped before a result: upload the recording instead
+        if (!streamSettled && !isRecording && recordedBlob) {
+          uploadAudio(recordedBlob);
+        }
+      };
+
+      pcmProcessor = audioContext.createScriptProcessor(4096, 1, 1);
+      pcmProcessor.onaudioprocess = (e) => {
+        const frame = downsampleTo16k(e.inputBuffer.getChannelData(0), audioContext.sampleRate);
+        if (socket.readyState === WebSocket.OPEN) {
+          socket.send(frame);
+        } else if (socket.readyState === WebSocket.CONNECTING) {
+          pendingFrames.push(frame);
+        }
+      };
+      source.connect(pcmProcessor);
+      pcmProcessor.connect(audioContext.destination);
+      liveSocket = socket;
+    }
+
+    function downsampleTo16k(input, inputRate) {
+      const ratio = inputRate / 16000;
+      const length = Math.floor(input.length / ratio);
+      const output = new Int16Array(length);
+      for (let i = 0; i < length; i++) {
+        const start = Math.floor(i * ratio);
+        const end = Math.max(start + 1, Math.min(input.length, Math.floor((i + 1) * ratio)));
+        let sum = 0;
+        for (let j = start; j < end; j++) {
+          sum += input[j];
+        }
+        const s = Math.max(-1, Math.min(1, sum / (end - start)));
+        output[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
+      }
+      return output.buffer;
+    }
+
+    function showLoading(label) {
+      const spinner = document.createElement("span");
+      spinner.className = "loading";
+      statusEl.replaceChildren(spinner, label);
+    }
+
+    // Show a finished transcription, or open it for review first
+    function showTranscript(transcript) {
+      if (conversation) {
+        appendUtterance(transcript);
+      } else if (review) {
+        showReview(transcript);
+      } else {
+        showResult(transcript, text.completed);
+      }
+    }
+
+    // Conversation: list the utterance and get ready for the next one
+    function appendUtterance(transcript) {
+      const line = document.createElement("div");
+      line.textContent = transcript;
+      utterancesEl.appendChild(line);
+      utterancesBox.classList.remove("hidden");
+      resultBox.classList.add("hidden");
+      resultBox.classList.remove("partial");
+      resultText.textContent = "";
+      statusEl.textContent = text.utteranceAdded;
+      statusEl.classList.remove("recording", "error");
+      statusEl.classList.add("success");
+    }
+
+    // Keep the session alive and swap in the fresh link signature; review
+    // pages stop once the transcript is no longer awaiting confirmation
+    async function heartbeat() {
+      try {
+        const response = await fetch(\`/api/heartbeat/\${sessionId}\${location.search}\`, { method: "POST" });
+        const data = await response.json();
+        if (data.exp && data.sig) {
+          const params = new URLSearchParams(location.search);
+          params.set("exp", data.exp);
+          params.set("sig", data.sig);
+          history.replaceState(null, "", location.pathname + "?" + params.toString());
+        } else if (!conversation) {
+          clearInterval(heartbeatInterval);
+        } else if (data.status && data.status !== "waiting" && data.status !== "recording") {
+          showEnded();
+        }
+      } catch (err) {
+        console.error("Heartbeat error:", err);
+      }
+    }
+
+    async function endConversation() {
+      endButton.disabled = true;
+      try {
+        await fetch(\`/api/end/\${sessionId}\${location.search}\`, { method: "POST" });
+      } catch (err) {
+        console.error("End error:", err);
+      }
+      showEnded();
+    }
+
+    // The take in progress, if any, is dropped rather than sent
+    function showEnded() {
+      ended = true;
+      if (liveSocket) {
+        liveSocket.onmessage = null;
+        liveSocket.close();
+      }
+      if (isRecording) {
+        stopRecording();
+      }
+      clearInterval(heartbeatInterval);
+      statusEl.textContent = text.ended;
+      statusEl.classList.remove("recording", "error", "success");
+      micIcon.classList.add("hidden");
+      document.getElementById("conversationActions").classList.add("hidden");
+      hintEl.classList.add("hidden");
+    }
+
+    // Queue replies after the last one seen; stops once the session or link is gone
+    async function pollReplies() {
+      try {
+        const params = new URLSearchParams(location.search);
+        params.set("after", replyCursor);
+        const response = await fetch(\`/api/replies/\${sessionId}?\${params}\`);
+        if (response.status === 403 || response.status === 404) {
+          return;
+        }
+        const data = await response.json();
+        for (const reply of data.replies || []) {
+          replyCursor = Math.max(replyCursor, reply.seq);
+          replyQueue.push(reply.url);
+        }
+        playNextReply();
+      } catch (err) {
+        console.error("Reply poll error:", err);
+      }
+      setTimeout(pollReplies, REPLY_POLL_MS);
+    }
+
+    // Replies wait while the microphone is open and play one after another
+    function playNextReply() {
+      if (isRecording || replyQueue.length === 0 || !(replyPlayer.paused || replyPlayer.ended)) return;
+      replyPlayer.src = replyQueue.shift();
+      replyBox.classList.remove("hidden");
+      replyPlayer.play().catch((err) => {
+        console.error("Reply playback error:", err);
+      });
+    }
+
+    function showReview(transcript) {
+      statusEl.textContent = text.reviewing;
+      statusEl.classList.remove("recording", "error", "success");
+      resultBox.classList.add("hidden");
+      reviewText.value = transcript;
+      sendButton.disabled = false;
+      rerecordButton.disabled = false;
+      reviewEl.classList.remove("hidden");
+      // Reviewing can take longer than the link is valid
+      clearInterval(heartbeatInterval);
+      heartbeatInterval = setInterval(heartbeat, HEARTBEAT_MS);
+    }
+
+    // Discard the current take and record again
+    function rerecord() {
+      clearInterval(heartbeatInterval);
+      resultBox.classList.add("hidden");
+      resultText.textContent = "";
+      startRecording();
+    }
+
+    // Commit the reviewed, possibly edited, transcript
+    async function confirmTranscript() {
+      sendButton.disabled = true;
+      rerecordButton.disabled = true;
+      showLoading(text.sending);
+      try {
+        const response = await fetch(\`/api/confirm/\${sessionId}\${location.search}\`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ text: reviewText.value }),
+        });
+        const data = await response.json();
+        if (!data.success) {
+          throw new Error(data.error || text.failed);
+        }
+        clearInterval(heartbeatInterval);
+        reviewEl.classList.add("hidden");
+        showResult(data.result, text.sent);
+      } catch (err) {
+        console.error("Confirm error:", err);
+        statusEl.textContent = err.message;
+        statusEl.classList.add("error");
+        sendButton.disabled = false;
+        rerecordButton.disabled = false;
+      }
+    }
+
+    function showResult(transcript, label) {
+      statusEl.textContent = label;
+      statusEl.classList.remove("recording");
+      statusEl.classList.add("success");
+      resultText.textContent = transcript;
+      resultBox.classList.remove("partial");
+      resultBox.classList.remove("hidden");
+    }
+
+    function showError(message) {
+      statusEl.textContent = text.failed;
+      statusEl.classList.add("error");
+      resultText.textContent = message;
+      resultBox.classList.remove("partial");
+      resultBox.classList.remove("hidden");
+    }
+
+    function updateVisualizer() {
+      if (!analyser || !dataArray) return;
+      
+      analyser.getByteFrequencyData(dataArray);
+      
+      for (let i = 0; i < bars.length; i++) {
+        const value = dataArray[i] || 0;
+        const height = Math.max(4, (value / 255) * 50);
+        bars[i].style.height = height + "px";
+      }
+    }
+
+    async function convertToWav(blob) {
+      const arrayBuffer = await blob.arrayBuffer();
+      const decoded = await audioContext.decodeAudioData(arrayBuffer);
+      
+      // Render mono at 16 kHz: about a third of a full-rate 48 kHz upload
+      const targetRate = 16000;
+      const offline = new OfflineAudioContext(1, Math.ceil(decoded.duration * targetRate), targetRate);
+      const source = offline.createBufferSource();
+      source.buffer = decoded;
+      source.connect(offline.destination);
+      source.start();
+      const audioBuffer = await offline.startRendering();
+      
+      const numChannels = 1;
+      const sampleRate = audioBuffer.sampleRate;
+      const format = 1;
+      const bitDepth = 16;
+      
+      const data = audioBuffer.getChannelData(0);
+      const dataLength = data.length * (bitDepth / 8);
+      const headerLength = 44;
+      const totalLength = headerLength + dataLength;
+      
+      const arrayBuffer2 = new ArrayBuffer(totalLength);
+      const view = new DataView(arrayBuffer2);
+      
+      writeString(view, 0, 'RIFF');
+      view.setUint32(4, totalLength - 8, true);
+      writeString(view, 8, 'WAVE');
+      writeString(view, 12, 'fmt ');
+      view.setUint32(16, 16, true);
+      view.setUint16(20, format, true);
+      view.setUint16(22, numChannels, true);
+      view.setUint32(24, sampleRate, true);
+      view.setUint32(28, sampleRate * numChannels * (bitDepth / 8), true);
+      view.setUint16(32, numChannels * (bitDepth / 8), true);
+      view.setUint16(34, bitDepth, true);
+      writeString(view, 36, 'data');
+      view.setUint32(40, dataLength, true);
+      
+      floatTo16BitPCM(view, 44, data);
+      
+      return new Blob([arrayBuffer2], { type: 'audio/wav' });
+    }
+    
+    function writeString(view, offset, string) {
+      for (let i = 0; i < string.length; i++) {
+        view.setUint8(offset + i, string.charCodeAt(i));
+      }
+    }
+    
+    function floatTo16BitPCM(view, offset, input) {
+      for (let i = 0; i < input.length; i++, offset += 2) {
+        const s = Math.max(-1, Math.min(1, input[i]));
+        view.setInt16(offset, s < 0 ? s * 0x8000 : s * 0x7FFF, true);
+      }
+    }
+
+    async function uploadAudio(blob) {
+      if (ended) return;
+      try {
+        showLoading(text.converting);
+        
+        const wavBlob = await convertToWav(blob);
+        
+        showLoading(text.transcribing);
+        
+        const response = await fetch(\`/api/upload/\${sessionId}\${location.search}\`, {
+          method: "POST",
+          body: wavBlob
+        });
+
+        const data = await response.json();
+
+        if (data.success) {
+          showTranscript(data.result);
+        } else {
+          throw new Error(data.error || text.failed);
+        }
+      } catch (err) {
+        console.error("Upload error:", err);
+        showError(err.message);
+      }
+    }
+
+    if (conversation) {
+      document.getElementById("conversationActions").classList.remove("hidden");
+      endButton.addEventListener("click", endConversation);
+      heartbeatInterval = setInterval(heartbeat, HEARTBEAT_MS);
+    }
+
+    replyPlayer.addEventListener("ended", playNextReply);
+    pollReplies();
+
+    rerecordButton.addEventListener("click", rerecord);
+    sendButton.addEventListener("click", confirmTranscript);
+
+    micIcon.addEventListener("click", () => {
+      if (isRecording) {
+        stopRecording();
+      } else {
+        startRecording();
+      }
+    });
+
+    document.addEventListener("keydown", (e) => {
+      // Spaces typed into the transcript are text, not push-to-talk
+      if (e.target === reviewText) return;
+      if (e.code === "Space" && !e.repeat) {
+        e.preventDefault();
+        if (!isRecording) {
+          startRecording();
+        }
+      }
+    });
+
+    document.addEventListener("keyup", (e) => {
+      if (e.target === reviewText) return;
+      if (e.code === "Space") {
+        e.preventDefault();
+        if (isRecording) {
+          stopRecording();
+        }
+      }
+    });
+  </script>
+</body>
+</html>`;
+}
@@ -0,0 +1,79 @@
+/**
+ * Pairing codes
+ *
+ * A six-digit code stands in for a session's recording link so it can be
+ * typed on a phone: /r/:code resolves it to the session, which is then
+ * opened through a freshly signed link. A code works once. A million codes
+ * are easy to walk, so failed lookups are limited per client IP.
+ */
+
+import { RateLimitError } from "./ratelimit.ts";
+import type { Storage } from "./storage.ts";
+
+export interface PairingCodes {
+  // New code for a session, valid for `ttlMs`; null when no free code was found
+  create(sessionId: string, ttlMs: number): Promise<string | null>;
+  // Session a code belongs to, or null; the code is used up. Throws
+  // RateLimitError once `ip` has missed too often.
+  resolve(code: string, ip: string | undefined): Promise<string | null>;
+}
+
+export const PAIRING_CODE_PATTERN = /^\d{6}$/;
+
+// Failed lookups allowed per client IP in each window
+const MAX_MISSES = 10;
+const MISS_WINDOW_MS = 10 * 60 * 1000;
+
+// How long a used code stays taken
+const USED_CODE_TTL_MS = 1000;
+
+// Attempts at drawing a code that isn't in use
+const CREATE_ATTEMPTS = 5;
+
+function randomCode(): string {
+  const [value] = crypto.getRandomValues(new Uint32Array(1));
+  return String(value % 1_000_000).padStart(6, "0");
+}
+
+export function createPairingCodes(storage: Storage): PairingCodes {
+  function missKey(ip: string | undefined) {
+    const window = Math.floor(Date.now() / MISS_WINDOW_MS) * MISS_WINDOW_MS;
+    return { key: ["pairing-misses", ip ?? "unknown", String(window)], end: window + MISS_WINDOW_MS };
+  }
+
+  return {
+    async create(sessionId, ttlMs) {
+      for (let attempt = 0; attempt < CREATE_ATTEMPTS; attempt++) {
+        const code = randomCode();
+        if (await storage.compareAndSet(["pairing", code], null, sessionId, { expireIn: ttlMs })) {
+          return code;
+        }
+      }
+      return null;
+    },
+
+    async resolve(code, ip) {
+      const { key, end } = missKey(ip);
+      const expireIn = end - Date.now() + MISS_WINDOW_MS;
+      if (await storage.increment(key, 0, { expireIn }) >= MAX_MISSES) {
+        throw new RateLimitError(
+          "rate_limited",
+          `Too many unknown pairing codes; retry in ${Math.ceil((end - Date.now()) / 1000)}s`,
+          end - Date.now(),
+        );
+      }
+
+      const entry = PAIRING_CODE_PATTERN.test(code) ? await storage.get<string | null>(["pairing", code]) : null;
+      if (!entry?.value) {
+        await storage.increment(key, 1, { expireIn });
+        return null;
+      }
+      // Used up by overwriting it, so of two concurrent lookups only one wins;
+      // the empty entry frees the code shortly after
+      if (!await storage.compareAndSet(["pairing", code], entry.version, null, { expireIn: USED_CODE_TTL_MS })) {
+        return null;
+      }
+      return entry.value;
+    },
+  };
+}
@@ -0,0 +1,40 @@
+import assert from "node:assert/strict";
+import { createPairingCodes, PAIRING_CODE_PATTERN } from "./pairing.ts";
+import { RateLimitError } from "./ratelimit.ts";
+import { createMemoryStorage } from "./storage.ts";
+
+Deno.test("pairing codes", async (t) => {
+  const pairing = createPairingCodes(createMemoryStorage());
+
+  await t.step("resolve to their session once", async () => {
+    const code = await pairing.create("session-1", 60_000);
+    assert.ok(code && PAIRING_CODE_PATTERN.test(code));
+    assert.equal(await pairing.resolve(code, "10.0.0.1"), "session-1");
+    assert.equal(await pairing.resolve(code, "10.0.0.2"), null);
+  });
+
+  await t.step("resolve once when looked up concurrently", async () => {
+    const code = await pairing.create("session-4", 60_000);
+    const resolved = await Promise.all([pairing.resolve(code!, "10.0.0.3"), pairing.resolve(code!, "10.0.0.4")]);
+    assert.deepEqual(resolved.filter(Boolean), ["session-4"]);
+  });
+
+  await t.step("expire", async () => {
+    const code = await pairing.create("session-2", 20);
+    await new Promise((resolve) => setTimeout(resolve, 40));
+    assert.equal(await pairing.resolve(code!, "10.0.0.1"), null);
+  });
+
+  await t.step("limit misses per IP", async () => {
+    const code = await pairing.create("session-3", 60_000);
+    // One miss is already counted above
+    for (let i = 0; i < 9; i++) {
+      assert.equal(await pairing.resolve(i === 0 ? "12345" : "999999", "10.0.0.1"), null);
+    }
+    await assert.rejects(
+      pairing.resolve(code!, "10.0.0.1"),
+      (error) => error instanceof RateLimitError && error.retryAfterMs > 0,
+    );
+    assert.equal(await pairing.resolve(code!, "10.0.0.2"), "session-3");
+  });
+});
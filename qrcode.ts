@@ -0,0 +1,426 @@
+/**
+ * QR codes for the terminal
+ *
+ * Encodes a recording link as a QR code (byte mode, error correction
+ * level M) and renders it with Unicode half blocks, two module rows per
+ * line, so it can be scanned straight off the screen. Generated entirely
+ * in-process; the link never goes to a third-party service.
+ */
+
+// Error correction codewords per block and number of blocks for level M,
+// indexed by version (index 0 unused)
+const ECC_CODEWORDS_PER_BLOCK = [
+  -1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26,
+  26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28,
+];
+const ECC_BLOCKS = [
+  -1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16,
+  17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49,
+];
+// Format information bits for level M
+const ECC_FORMAT_BITS = 0;
+
+const MIN_VERSION = 1;
+const MAX_VERSION = 40;
+
+// Light modules around the code; two is enough for phone cameras and keeps
+// the block small
+const QUIET_ZONE = 2;
+
+export class QrCapacityError extends Error {
+  constructor(length: number) {
+    super(`${length} bytes do not fit in a QR code`);
+    this.name = "QrCapacityError";
+  }
+}
+
+// Modules of an encoded QR code, row by row; true is dark
+export type QrModules = boolean[][];
+
+function bit(value: number, index: number): boolean {
+  return ((value >>> index) & 1) !== 0;
+}
+
+// Modules left for data and error correction once the function patterns are drawn
+function rawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const alignments = Math.floor(version / 7) + 2;
+    result -= (25 * alignments - 10) * alignments - 55;
+    if (version >= 7) {
+      result -= 36;
+    }
+  }
+  return result;
+}
+
+function dataCodewords(version: number): number {
+  return Math.floor(rawDataModules(version) / 8) - ECC_CODEWORDS_PER_BLOCK[version] * ECC_BLOCKS[version];
+}
+
+// Centre coordinates of the alignment patterns along either axis
+function alignmentPositions(version: number): number[] {
+  if (version === 1) {
+    return [];
+  }
+  const count = Math.floor(version / 7) + 2;
+  const step = Math.floor((version * 8 + count * 3 + 5) / (count * 4 - 4)) * 2;
+  const result = [6];
+  for (let position = version * 4 + 10; result.length < count; position -= step) {
+    result.splice(1, 0, position);
+  }
+  return result;
+}
+
+// Multiplication in GF(2^8) modulo x^8 + x^4 + x^3 + x^2 + 1
+function gfMultiply(x: number, y: number): number {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+}
+
+function reedSolomonDivisor(degree: number): number[] {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < degree; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < degree) {
+        result[j] ^= result[j + 1];
+      }
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+}
+
+function reedSolomonRemainder(data: number[], divisor: number[]): number[] {
+  const result = new Array<number>(divisor.length).fill(0);
+  for (const byte of data) {
+    const factor = byte ^ result.shift()!;
+    result.push(0);
+    divisor.forEach((coefficient, i) => result[i] ^= gfMultiply(coefficient, factor));
+  }
+  return result;
+}
+
+// Byte-mode segment padded to the version's data capacity
+function dataBytes(data: Uint8Array, version: number): number[] {
+  const capacityBits = dataCodewords(version) * 8;
+  const bits: boolean[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) {
+      bits.push(bit(value, i));
+    }
+  };
+
+  append(0b0100, 4);
+  append(data.length, version <= 9 ? 8 : 16);
+  data.forEach((byte) => append(byte, 8));
+  append(0, Math.min(4, capacityBits - bits.length));
+  append(0, (8 - bits.length % 8) % 8);
+  for (let pad = 0xec; bits.length < capacityBits; pad ^= 0xec ^ 0x11) {
+    append(pad, 8);
+  }
+
+  const bytes = new Array<number>(bits.length / 8).fill(0);
+  bits.forEach((set, i) => bytes[i >>> 3] |= (set ? 1 : 0) << (7 - (i & 7)));
+  return bytes;
+}
+
+// Split into blocks, append each block's error correction and interleave
+function withErrorCorrection(data: number[], version: number): number[] {
+  const blocks = ECC_BLOCKS[version];
+  const eccLength = ECC_CODEWORDS_PER_BLOCK[version];
+  const rawCodewords = Math.floor(rawDataModules(version) / 8);
+  const shortBlocks = blocks - rawCodewords % blocks;
+  const shortBlockLength = Math.floor(rawCodewords / blocks);
+  const divisor = reedSolomonDivisor(eccLength);
+
+  const split: number[][] = [];
+  for (let i = 0, offset = 0; i < blocks; i++) {
+    const length = shortBlockLength - eccLength + (i < shortBlocks ? 0 : 1);
+    const block = data.slice(offset, offset + length);
+    offset += length;
+    const ecc = reedSolomonRemainder(block, divisor);
+    if (i < shortBlocks) {
+      // Placeholder so every block has the same length; skipped below
+      block.push(0);
+    }
+    split.push([...block, ...ecc]);
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < split[0].length; i++) {
+    split.forEach((block, j) => {
+      if (i !== shortBlockLength - eccLength || j >= shortBlocks) {
+        result.push(block[i]);
+      }
+    });
+  }
+  return result;
+}
+
+function maskApplies(mask: number, x: number, y: number): boolean {
+  switch (mask) {
+    case 0:
+      return (x + y) % 2 === 0;
+    case 1:
+      return y % 2 === 0;
+    case 2:
+      return x % 3 === 0;
+    case 3:
+      return (x + y) % 3 === 0;
+    case 4:
+      return (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0;
+    case 5:
+      return (x * y) % 2 + (x * y) % 3 === 0;
+    case 6:
+      return ((x * y) % 2 + (x * y) % 3) % 2 === 0;
+    default:
+      return (((x + y) % 2) + (x * y) % 3) % 2 === 0;
+  }
+}
+
+class QrGrid {
+  readonly size: number;
+  readonly modules: QrModules;
+  private readonly reserved: boolean[][];
+
+  constructor(readonly version: number) {
+    this.size = version * 4 + 17;
+    this.modules = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+    this.reserved = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+  }
+
+  private setFunction(x: number, y: number, dark: boolean): void {
+    this.modules[y][x] = dark;
+    this.reserved[y][x] = true;
+  }
+
+  drawFunctionPatterns(): void {
+    const { size } = this;
+    for (let i = 0; i < size; i++) {
+      this.setFunction(6, i, i % 2 === 0);
+      this.setFunction(i, 6, i % 2 === 0);
+    }
+
+    for (const [cx, cy] of [[3, 3], [size - 4, 3], [3, size - 4]]) {
+      for (let dy = -4; dy <= 4; dy++) {
+        for (let dx = -4; dx <= 4; dx++) {
+          const x = cx + dx;
+          const y = cy + dy;
+          if (x >= 0 && x < size && y >= 0 && y < size) {
+            const distance = Math.max(Math.abs(dx), Math.abs(dy));
+            this.setFunction(x, y, distance !== 2 && distance !== 4);
+          }
+        }
+      }
+    }
+
+    const positions = alignmentPositions(this.version);
+    const last = positions.length - 1;
+    positions.forEach((cx, i) => {
+      positions.forEach((cy, j) => {
+        // The three corners already hold finder patterns
+        if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) {
+          return;
+        }
+        for (let dy = -2; dy <= 2; dy++) {
+          for (let dx = -2; dx <= 2; dx++) {
+            this.setFunction(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+          }
+        }
+      });
+    });
+
+    // Reserve the format areas now; the real bits go in once the mask is chosen
+    this.drawFormatBits(0);
+    this.drawVersionBits();
+  }
+
+  drawFormatBits(mask: number): void {
+    const { size } = this;
+    const data = (ECC_FORMAT_BITS << 3) | mask;
+    let remainder = data;
+    for (let i = 0; i < 10; i++) {
+      remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+    }
+    const bits = ((data << 10) | remainder) ^ 0x5412;
+
+    for (let i = 0; i <= 5; i++) {
+      this.setFunction(8, i, bit(bits, i));
+    }
+    this.setFunction(8, 7, bit(bits, 6));
+    this.setFunction(8, 8, bit(bits, 7));
+    this.setFunction(7, 8, bit(bits, 8));
+    for (let i = 9; i < 15; i++) {
+      this.setFunction(14 - i, 8, bit(bits, i));
+    }
+
+    for (let i = 0; i < 8; i++) {
+      this.setFunction(size - 1 - i, 8, bit(bits, i));
+    }
+    for (let i = 8; i < 15; i++) {
+      this.setFunction(8, size - 15 + i, bit(bits, i));
+    }
+    this.setFunction(8, size - 8, true);
+  }
+
+  private drawVersionBits(): void {
+    if (this.version < 7) {
+      return;
+    }
+    let remainder = this.version;
+    for (let i = 0; i < 12; i++) {
+      remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+    }
+    const bits = (this.version << 12) | remainder;
+    for (let i = 0; i < 18; i++) {
+      const a = this.size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      this.setFunction(a, b, bit(bits, i));
+      this.setFunction(b, a, bit(bits, i));
+    }
+  }
+
+  // Zigzag through column pairs from the bottom right, skipping function modules
+  drawCodewords(codewords: number[]): void {
+    const { size } = this;
+    let i = 0;
+    for (let right = size - 1; right >= 1; right -= 2) {
+      if (right === 6) {
+        right = 5;
+      }
+      const upward = ((right + 1) & 2) === 0;
+      for (let step = 0; step < size; step++) {
+        const y = upward ? size - 1 - step : step;
+        for (const x of [right, right - 1]) {
+          if (!this.reserved[y][x] && i < codewords.length * 8) {
+            this.modules[y][x] = bit(codewords[i >>> 3], 7 - (i & 7));
+            i++;
+          }
+        }
+      }
+    }
+  }
+
+  // Masking twice undoes it
+  applyMask(mask: number): void {
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (!this.reserved[y][x] && maskApplies(mask, x, y)) {
+          this.modules[y][x] = !this.modules[y][x];
+        }
+      }
+    }
+  }
+
+  // The standard's penalty score; the mask with the lowest one is used
+  penalty(): number {
+    const { size, modules } = this;
+    const lines: boolean[][] = [...modules];
+    for (let x = 0; x < size; x++) {
+      lines.push(modules.map((row) => row[x]));
+    }
+
+    let score = 0;
+    const finderLike = [
+      [true, false, true, true, true, false, true, false, false, false, false],
+      [false, false, false, false, true, false, true, true, true, false, true],
+    ];
+    for (const line of lines) {
+      let run = 1;
+      for (let i = 1; i <= size; i++) {
+        if (i < size && line[i] === line[i - 1]) {
+          run++;
+          continue;
+        }
+        if (run >= 5) {
+          score += run - 2;
+        }
+        run = 1;
+      }
+      for (let i = 0; i + 11 <= size; i++) {
+        if (finderLike.some((pattern) => pattern.every((dark, k) => line[i + k] === dark))) {
+          score += 40;
+        }
+      }
+    }
+
+    let dark = 0;
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        dark += modules[y][x] ? 1 : 0;
+        if (
+          x + 1 < size && y + 1 < size && modules[y][x] === modules[y][x + 1] &&
+          modules[y][x] === modules[y + 1][x] && modules[y][x] === modules[y + 1][x + 1]
+        ) {
+          score += 3;
+        }
+      }
+    }
+    const total = size * size;
+    score += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+    return score;
+  }
+}
+
+// Encode text (as UTF-8) in the smallest version that fits. Throws
+// QrCapacityError when it is too long for any version.
+export function encodeQrCode(text: string): QrModules {
+  const data = new TextEncoder().encode(text);
+  let version = MIN_VERSION;
+  while (4 + (version <= 9 ? 8 : 16) + data.length * 8 > dataCodewords(version) * 8) {
+    if (++version > MAX_VERSION) {
+      throw new QrCapacityError(data.length);
+    }
+  }
+
+  const grid = new QrGrid(version);
+  grid.drawFunctionPatterns();
+  grid.drawCodewords(withErrorCorrection(dataBytes(data, version), version));
+
+  let bestMask = 0;
+  let bestPenalty = Infinity;
+  for (let mask = 0; mask < 8; mask++) {
+    grid.applyMask(mask);
+    grid.drawFormatBits(mask);
+    const penalty = grid.penalty();
+    if (penalty < bestPenalty) {
+      bestMask = mask;
+      bestPenalty = penalty;
+    }
+    grid.applyMask(mask);
+  }
+  grid.applyMask(bestMask);
+  grid.drawFormatBits(bestMask);
+  return grid.modules;
+}
+
+// Render as text, two module rows per line. Light modules are drawn as
+// blocks, which suits the light-on-dark text of most terminals; phone
+// cameras read the inverted code fine.
+export function renderQrCode(modules: QrModules): string {
+  const size = modules.length + QUIET_ZONE * 2;
+  const light = (x: number, y: number) => {
+    const row = modules[y - QUIET_ZONE];
+    return row === undefined || !(row[x - QUIET_ZONE] ?? false);
+  };
+
+  const lines: string[] = [];
+  for (let y = 0; y < size; y += 2) {
+    let line = "";
+    for (let x = 0; x < size; x++) {
+      const top = light(x, y);
+      const bottom = y + 1 < size ? light(x, y + 1) : false;
+      line += top ? (bottom ? "█" : "▀") : (bottom ? "▄" : " ");
+    }
+    lines.push(line);
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,65 @@
+import assert from "node:assert/strict";
+import { encodeQrCode, QrCapacityError, renderQrCode } from "./qrcode.ts";
+
+// "hi" at level M, as produced by the python-qrcode reference encoder
+// with the same mask (2)
+const HI = [
+  "#######..####.#######",
+  "#.....#..##.#.#.....#",
+  "#.###.#.##.##.#.###.#",
+  "#.###.#.##..#.#.###.#",
+  "#.###.#.#..##.#.###.#",
+  "#.....#.##..#.#.....#",
+  "#######.#.#.#.#######",
+  "........#.###........",
+  "#.#####.....#.#####..",
+  ".###.#.#..#.#..#....#",
+  "..##..##.#.#.#..####.",
+  "###.#....#.....##.#..",
+  "###.#.#....#.#..#.#.#",
+  "........#..####..#..#",
+  "#######...#.#.##...#.",
+  "#.....#.#######..#..#",
+  "#.###.#.#...#..#..#..",
+  "#.###.#.###.#..#..#..",
+  "#.###.#.#..#.#..###..",
+  "#.....#..##....##.#..",
+  "#######.#.##.#..####.",
+];
+
+const rows = (modules: boolean[][]) => modules.map((row) => row.map((dark) => (dark ? "#" : ".")).join(""));
+
+Deno.test("encodeQrCode", async (t) => {
+  await t.step("matches the reference encoder", () => {
+    assert.deepEqual(rows(encodeQrCode("hi")), HI);
+  });
+
+  await t.step("picks the smallest version that fits", () => {
+    assert.equal(encodeQrCode("http://localhost:8000/r/123456").length, 29);
+    // 132 bytes: over the 122 of version 7, within the 152 of version 8
+    const link = "https://voice.example.com/record/5c003108-dc28-4ee0-9284-8240901ebcc9?exp=1760000000&sig=" +
+      "a".repeat(43);
+    assert.equal(encodeQrCode(link).length, 49);
+  });
+
+  await t.step("encodes UTF-8", () => {
+    // Three UTF-8 bytes a character: 12 bytes fit the 14 of version 1, 18 need version 2
+    assert.equal(encodeQrCode("你好世界").length, 21);
+    assert.equal(encodeQrCode("你好世界你好").length, 25);
+  });
+
+  await t.step("throws when the text doesn't fit", () => {
+    assert.throws(() => encodeQrCode("x".repeat(2400)), QrCapacityError);
+  });
+});
+
+Deno.test("renderQrCode draws two rows per line with a quiet zone", () => {
+  const lines = renderQrCode(encodeQrCode("hi")).split("\n");
+  // 21 modules plus two light modules on each side
+  assert.equal(lines.length, 13);
+  assert.ok(lines.every((line) => [...line].length === 25));
+  assert.equal(lines[0], "█".repeat(25));
+  // Light modules are drawn: the quiet zone, then the top-left finder's
+  // dark outer ring over its light inner ring
+  assert.ok(lines[1].startsWith("██ ▄▄▄▄▄ "));
+});
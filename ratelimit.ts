@@ -0,0 +1,210 @@
+/**
+ * Rate limits and usage accounting
+ *
+ * Fixed-window limits on session creation and uploads per API key and per
+ * client IP, plus daily and monthly audio-seconds quotas per API key, all
+ * kept as storage counters so every instance shares them.
+ */
+
+import type { Client } from "./auth.ts";
+import type { Storage } from "./storage.ts";
+
+export interface RateLimit {
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimitConfig {
+  // null: unlimited
+  sessionsPerKey: RateLimit | null;
+  sessionsPerIp: RateLimit | null;
+  uploadsPerKey: RateLimit | null;
+  uploadsPerIp: RateLimit | null;
+  dailyAudioSeconds: number | null;
+  monthlyAudioSeconds: number | null;
+}
+
+export type RateLimitAction = "sessions" | "uploads";
+
+export type RateLimitErrorCode = "rate_limited" | "quota_exceeded";
+
+export class RateLimitError extends Error {
+  readonly status = 429;
+
+  constructor(public code: RateLimitErrorCode, message: string, public retryAfterMs: number) {
+    super(message);
+    this.name = "RateLimitError";
+  }
+}
+
+export type Period = "day" | "month";
+
+// Usage in one calendar period (UTC)
+export interface PeriodUsage {
+  sessions: number;
+  uploads: number;
+  audioSeconds: number;
+  // null: no quota
+  audioSecondsLimit: number | null;
+  resetsAt: string;
+}
+
+export interface Usage {
+  key: string;
+  day: PeriodUsage;
+  month: PeriodUsage;
+  limits: Record<RateLimitAction, { perKey: RateLimit | null; perIp: RateLimit | null }>;
+}
+
+export interface RateLimiter {
+  // Count one session creation or upload; throws RateLimitError over a limit
+  consume(action: RateLimitAction, client: Client): Promise<void>;
+  // Throws RateLimitError when `seconds` more audio would exceed a quota
+  checkAudioQuota(key: string, seconds: number): Promise<void>;
+  recordAudio(key: string, seconds: number): Promise<void>;
+  usage(key: string): Promise<Usage>;
+}
+
+type Metric = RateLimitAction | "audioSeconds";
+
+const PERIODS: Period[] = ["day", "month"];
+
+// Period counters are kept a day past the end of their period
+const PERIOD_GRACE_MS = 24 * 60 * 60 * 1000;
+
+// UTC calendar period containing `now`: its storage id and when it ends
+function periodBounds(period: Period, now: number): { id: string; end: number } {
+  const date = new Date(now);
+  if (period === "day") {
+    return {
+      id: date.toISOString().slice(0, 10),
+      end: Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1),
+    };
+  }
+  return {
+    id: date.toISOString().slice(0, 7),
+    end: Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1),
+  };
+}
+
+// Fixed window containing `now`
+function windowBounds({ windowMs }: RateLimit, now: number): { id: string; end: number } {
+  const start = Math.floor(now / windowMs) * windowMs;
+  return { id: String(start), end: start + windowMs };
+}
+
+function retryIn(ms: number): string {
+  return `retry in ${Math.ceil(ms / 1000)}s`;
+}
+
+export function createRateLimiter(storage: Storage, config: RateLimitConfig): RateLimiter {
+  const limits: Usage["limits"] = {
+    sessions: { perKey: config.sessionsPerKey, perIp: config.sessionsPerIp },
+    uploads: { perKey: config.uploadsPerKey, perIp: config.uploadsPerIp },
+  };
+  const quotas: Record<Period, number | null> = {
+    day: config.dailyAudioSeconds,
+    month: config.monthlyAudioSeconds,
+  };
+
+  // Count one event in the current fixed window; the counter outlives its
+  // window by one more window so clock skew between instances can't reset it early
+  async function countWindow(action: RateLimitAction, scope: "key" | "ip", id: string, limit: RateLimit) {
+    const now = Date.now();
+    const window = windowBounds(limit, now);
+    const used = await storage.increment(["ratelimit", action, scope, id, window.id], 1, {
+      expireIn: window.end - now + limit.windowMs,
+    });
+    return { used, retryAfterMs: window.end - now };
+  }
+
+  // Add `delta` to a key's usage in a period; 0 just reads it
+  async function countPeriod(key: string, period: Period, metric: Metric, delta: number) {
+    const now = Date.now();
+    const bounds = periodBounds(period, now);
+    const used = await storage.increment(["usage", key, period, bounds.id, metric], delta, {
+      expireIn: bounds.end - now + PERIOD_GRACE_MS,
+    });
+    return { used, retryAfterMs: bounds.end - now, end: bounds.end };
+  }
+
+  async function periodUsage(key: string, period: Period): Promise<PeriodUsage> {
+    const [sessions, uploads, audio] = await Promise.all([
+      countPeriod(key, period, "sessions", 0),
+      countPeriod(key, period, "uploads", 0),
+      countPeriod(key, period, "audioSeconds", 0),
+    ]);
+    return {
+      sessions: sessions.used,
+      uploads: uploads.used,
+      audioSeconds: Math.round(audio.used * 10) / 10,
+      audioSecondsLimit: quotas[period],
+      resetsAt: new Date(audio.end).toISOString(),
+    };
+  }
+
+  return {
+    async consume(action, client) {
+      const scopes: ["key" | "ip", string | undefined, RateLimit | null][] = [
+        ["key", client.key, limits[action].perKey],
+        ["ip", client.ip, limits[action].perIp],
+      ];
+      for (const [scope, id, limit] of scopes) {
+        if (!id || !limit) {
+          continue;
+        }
+        const { used, retryAfterMs } = await countWindow(action, scope, id, limit);
+        if (used > limit.limit) {
+          throw new RateLimitError(
+            "rate_limited",
+            `Too many ${action} for this ${scope === "key" ? "API key" : "IP"} ` +
+              `(${limit.limit} per ${limit.windowMs / 1000}s); ${retryIn(retryAfterMs)}`,
+            retryAfterMs,
+          );
+        }
+      }
+      await Promise.all(PERIODS.map((period) => countPeriod(client.key, period, action, 1)));
+    },
+
+    async checkAudioQuota(key, seconds) {
+      for (const period of PERIODS) {
+        const quota = quotas[period];
+        if (quota === null) {
+          continue;
+        }
+        const { used, retryAfterMs } = await countPeriod(key, period, "audioSeconds", 0);
+        if (used + seconds > quota) {
+          throw new RateLimitError(
+            "quota_exceeded",
+            `${period === "day" ? "Daily" : "Monthly"} audio quota of ${quota}s reached ` +
+              `(${Math.round(used)}s used, ${Math.round(seconds)}s requested); ${retryIn(retryAfterMs)}`,
+            retryAfterMs,
+          );
+        }
+      }
+    },
+
+    async recordAudio(key, seconds) {
+      if (seconds > 0) {
+        await Promise.all(PERIODS.map((period) => countPeriod(key, period, "audioSeconds", seconds)));
+      }
+    },
+
+    async usage(key) {
+      const [day, month] = await Promise.all(PERIODS.map((period) => periodUsage(key, period)));
+      return { key, day, month, limits };
+    },
+  };
+}
+
+// Parse a "count/seconds" limit such as "30/60"; empty or "0" means unlimited
+export function parseRateLimit(value: string | undefined, name: string): RateLimit | null {
+  if (!value || value.trim() === "0") {
+    return null;
+  }
+  const match = value.trim().match(/^(\d+)\s*\/\s*(\d+(?:\.\d+)?)$/);
+  if (!match || Number(match[1]) === 0 || Number(match[2]) === 0) {
+    throw new Error(`Invalid ${name}: expected "count/seconds", e.g. "30/60"`);
+  }
+  return { limit: Number(match[1]), windowMs: Number(match[2]) * 1000 };
+}
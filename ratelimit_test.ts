@@ -0,0 +1,88 @@
+import assert from "node:assert/strict";
+import { createRateLimiter, parseRateLimit, type RateLimitConfig, RateLimitError } from "./ratelimit.ts";
+import { createMemoryStorage } from "./storage.ts";
+
+const UNLIMITED: RateLimitConfig = {
+  sessionsPerKey: null,
+  sessionsPerIp: null,
+  uploadsPerKey: null,
+  uploadsPerIp: null,
+  dailyAudioSeconds: null,
+  monthlyAudioSeconds: null,
+};
+
+const isRateLimitError = (code: string) => (error: unknown) =>
+  error instanceof RateLimitError && error.code === code && error.retryAfterMs > 0;
+
+Deno.test("parseRateLimit", () => {
+  assert.equal(parseRateLimit(undefined, "X"), null);
+  assert.equal(parseRateLimit(" 0 ", "X"), null);
+  assert.deepEqual(parseRateLimit("30/60", "X"), { limit: 30, windowMs: 60_000 });
+  assert.deepEqual(parseRateLimit("5 / 0.5", "X"), { limit: 5, windowMs: 500 });
+  assert.throws(() => parseRateLimit("30", "RATE_LIMIT_SESSIONS"), /RATE_LIMIT_SESSIONS/);
+  assert.throws(() => parseRateLimit("0/60", "X"));
+  assert.throws(() => parseRateLimit("30/0", "X"));
+});
+
+Deno.test("consume", async (t) => {
+  await t.step("limits per key and per IP separately", async () => {
+    const limiter = createRateLimiter(createMemoryStorage(), {
+      ...UNLIMITED,
+      sessionsPerKey: { limit: 3, windowMs: 60_000 },
+      sessionsPerIp: { limit: 2, windowMs: 60_000 },
+    });
+    await limiter.consume("sessions", { key: "ci", ip: "10.0.0.1" });
+    await limiter.consume("sessions", { key: "ci", ip: "10.0.0.1" });
+    await assert.rejects(limiter.consume("sessions", { key: "ci", ip: "10.0.0.1" }), isRateLimitError("rate_limited"));
+    // The rejected attempt still counted against the key
+    await assert.rejects(limiter.consume("sessions", { key: "ci", ip: "10.0.0.2" }), /API key/);
+    await limiter.consume("sessions", { key: "other", ip: "10.0.0.2" });
+  });
+
+  await t.step("actions are counted apart", async () => {
+    const limiter = createRateLimiter(createMemoryStorage(), {
+      ...UNLIMITED,
+      uploadsPerKey: { limit: 1, windowMs: 60_000 },
+    });
+    await limiter.consume("sessions", { key: "ci" });
+    await limiter.consume("uploads", { key: "ci" });
+    await assert.rejects(limiter.consume("uploads", { key: "ci" }), isRateLimitError("rate_limited"));
+  });
+
+  await t.step("a new window starts over", async () => {
+    const limiter = createRateLimiter(createMemoryStorage(), {
+      ...UNLIMITED,
+      uploadsPerIp: { limit: 1, windowMs: 50 },
+    });
+    await limiter.consume("uploads", { key: "ci", ip: "10.0.0.1" });
+    await assert.rejects(limiter.consume("uploads", { key: "ci", ip: "10.0.0.1" }));
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    await limiter.consume("uploads", { key: "ci", ip: "10.0.0.1" });
+  });
+});
+
+Deno.test("audio quota", async (t) => {
+  const limiter = createRateLimiter(createMemoryStorage(), { ...UNLIMITED, dailyAudioSeconds: 60 });
+
+  await t.step("allows audio up to the quota", async () => {
+    await limiter.checkAudioQuota("ci", 45);
+    await limiter.recordAudio("ci", 45);
+    await limiter.checkAudioQuota("ci", 15);
+  });
+
+  await t.step("rejects audio past it", async () => {
+    await assert.rejects(limiter.checkAudioQuota("ci", 15.5), isRateLimitError("quota_exceeded"));
+    await limiter.checkAudioQuota("other", 60);
+  });
+
+  await t.step("usage reports the counters", async () => {
+    await limiter.consume("sessions", { key: "ci" });
+    const usage = await limiter.usage("ci");
+    assert.equal(usage.day.sessions, 1);
+    assert.equal(usage.day.audioSeconds, 45);
+    assert.equal(usage.day.audioSecondsLimit, 60);
+    assert.equal(usage.month.audioSeconds, 45);
+    assert.equal(usage.month.audioSecondsLimit, null);
+    assert.ok(Date.parse(usage.day.resetsAt) > Date.now());
+  });
+});
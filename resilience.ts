@@ -0,0 +1,186 @@
+/**
+ * Resilient provider calls
+ *
+ * Wraps a TranscriptionProvider or SpeechProvider with a per-attempt
+ * timeout, retries with jittered exponential backoff for transient failures
+ * (429, 5xx, timeouts, network) that honour Retry-After, and a circuit
+ * breaker that fails fast while the provider is down.
+ */
+
+import type { SpeechOptions, SpeechProvider, SynthesizedSpeech } from "./speech.ts";
+import {
+  TranscriptionError,
+  type TranscriptionOptions,
+  type TranscriptionProvider,
+  type TranscriptionResult,
+} from "./transcription.ts";
+
+export interface ResilienceOptions {
+  // Per-attempt request timeout
+  timeoutMs: number;
+  // Extra attempts for a retryable failure
+  retries: number;
+  // First backoff step; doubles with every attempt
+  retryBaseMs: number;
+  // Longest delay (including Retry-After) worth waiting out before giving up
+  maxRetryDelayMs: number;
+  // Consecutive failed calls that open the circuit
+  breakerThreshold: number;
+  // How long an open circuit fails fast before letting a probe through
+  breakerCooldownMs: number;
+}
+
+// Closed -> open after `threshold` consecutive outages; after the cooldown
+// one probe call is let through and its outcome closes or re-opens it
+class CircuitBreaker {
+  private failures = 0;
+  private openUntil = 0;
+  private probing = false;
+
+  constructor(private threshold: number, private cooldownMs: number) {}
+
+  // Milliseconds until calls are allowed again, or 0 when this call may proceed
+  acquire(): number {
+    if (this.failures < this.threshold) {
+      return 0;
+    }
+    const remaining = this.openUntil - Date.now();
+    if (remaining > 0 || this.probing) {
+      return Math.max(remaining, 1000);
+    }
+    this.probing = true;
+    return 0;
+  }
+
+  success(): void {
+    this.failures = 0;
+    this.probing = false;
+  }
+
+  failure(): void {
+    this.failures++;
+    this.probing = false;
+    if (this.failures >= this.threshold) {
+      this.openUntil = Date.now() + this.cooldownMs;
+    }
+  }
+
+  // A call that ended without telling us anything about provider health
+  release(): void {
+    this.probing = false;
+  }
+}
+
+// Backoff before the next attempt: exponential with +-50% jitter, never shorter
+// than what the provider asked for
+function backoffDelay(attempt: number, baseMs: number, retryAfterMs?: number): number {
+  const exponential = baseMs * 2 ** attempt;
+  const jittered = exponential / 2 + Math.random() * exponential;
+  return Math.max(Math.round(jittered), retryAfterMs ?? 0);
+}
+
+// Timeout, retries and circuit breaker for the calls to one provider
+class ResilientCalls {
+  private breaker: CircuitBreaker;
+
+  constructor(private name: string, private options: ResilienceOptions) {
+    this.breaker = new CircuitBreaker(options.breakerThreshold, options.breakerCooldownMs);
+  }
+
+  async run<T>(call: (signal: AbortSignal) => Promise<T>): Promise<T> {
+    const waitMs = this.breaker.acquire();
+    if (waitMs > 0) {
+      throw new TranscriptionError(
+        "provider_down",
+        `${this.name} is unavailable after repeated failures; retry in ${Math.ceil(waitMs / 1000)}s`,
+        false,
+        waitMs,
+      );
+    }
+
+    for (let attempt = 0;; attempt++) {
+      try {
+        const result = await call(AbortSignal.timeout(this.options.timeoutMs));
+        this.breaker.success();
+        return result;
+      } catch (error) {
+        const delay = error instanceof TranscriptionError && error.retryable
+          ? backoffDelay(attempt, this.options.retryBaseMs, error.retryAfterMs)
+          : Infinity;
+
+        if (attempt >= this.options.retries || delay > this.options.maxRetryDelayMs) {
+          // Only outages count against the provider; bad input or credentials don't
+          if (error instanceof TranscriptionError && (error.code === "provider_down" || error.code === "timeout")) {
+            this.breaker.failure();
+          } else {
+            this.breaker.release();
+          }
+          throw error;
+        }
+
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  }
+}
+
+class ResilientProvider implements TranscriptionProvider {
+  private calls: ResilientCalls;
+
+  constructor(private provider: TranscriptionProvider, options: ResilienceOptions) {
+    this.calls = new ResilientCalls(provider.name, options);
+  }
+
+  get name(): string {
+    return this.provider.name;
+  }
+
+  get model(): string {
+    return this.provider.model;
+  }
+
+  checkConfiguration(): string | null {
+    return this.provider.checkConfiguration();
+  }
+
+  transcribe(audioData: Uint8Array<ArrayBuffer>, options: TranscriptionOptions = {}): Promise<TranscriptionResult> {
+    return this.calls.run((signal) => this.provider.transcribe(audioData, { ...options, signal }));
+  }
+}
+
+class ResilientSpeechProvider implements SpeechProvider {
+  private calls: ResilientCalls;
+
+  constructor(private provider: SpeechProvider, options: ResilienceOptions) {
+    this.calls = new ResilientCalls(provider.name, options);
+  }
+
+  get name(): string {
+    return this.provider.name;
+  }
+
+  get model(): string {
+    return this.provider.model;
+  }
+
+  get voice(): string {
+    return this.provider.voice;
+  }
+
+  checkConfiguration(): string | null {
+    return this.provider.checkConfiguration();
+  }
+
+  synthesize(text: string, options: SpeechOptions = {}): Promise<SynthesizedSpeech> {
+    return this.calls.run((signal) => this.provider.synthesize(text, { ...options, signal }));
+  }
+}
+
+export function withResilience(provider: TranscriptionProvider, options: ResilienceOptions): TranscriptionProvider {
+  return new ResilientProvider(provider, options);
+}
+
+// The same protection for a text-to-speech provider, with its own breaker
+export function withSpeechResilience(provider: SpeechProvider, options: ResilienceOptions): SpeechProvider {
+  return new ResilientSpeechProvider(provider, options);
+}
@@ -0,0 +1,101 @@
+import assert from "node:assert/strict";
+import { type ResilienceOptions, withResilience } from "./resilience.ts";
+import { classifyResponse, TranscriptionError, type TranscriptionProvider } from "./transcription.ts";
+
+const OPTIONS: ResilienceOptions = {
+  timeoutMs: 1000,
+  retries: 2,
+  retryBaseMs: 1,
+  maxRetryDelayMs: 100,
+  breakerThreshold: 2,
+  breakerCooldownMs: 50,
+};
+
+// Provider that plays back a script of failures, then succeeds
+function scriptedProvider(failures: TranscriptionError[]) {
+  const provider = {
+    name: "scripted",
+    model: "scripted-1",
+    calls: 0,
+    checkConfiguration: () => null,
+    transcribe() {
+      const failure = failures[provider.calls++];
+      return failure ? Promise.reject(failure) : Promise.resolve({ text: "ok" });
+    },
+  };
+  return provider satisfies TranscriptionProvider;
+}
+
+const audio = new Uint8Array(4);
+const outage = () => new TranscriptionError("provider_down", "502", true);
+const hasCode = (code: string) => (error: unknown) => error instanceof TranscriptionError && error.code === code;
+
+Deno.test("classifyResponse", () => {
+  const classify = (status: number, retryAfter: string | null = null) =>
+    classifyResponse("Test", status, "body", retryAfter);
+  assert.equal(classify(401).code, "auth");
+  assert.equal(classify(402).code, "quota");
+  assert.equal(classify(429, "2").retryable, true);
+  assert.equal(classify(429, "2").retryAfterMs, 2000);
+  assert.equal(classify(408).code, "timeout");
+  assert.equal(classify(400).code, "bad_audio");
+  assert.equal(classify(400).retryable, false);
+  assert.equal(classify(503).code, "provider_down");
+  assert.equal(classify(503).retryable, true);
+});
+
+Deno.test("withResilience", async (t) => {
+  await t.step("retries transient failures", async () => {
+    const provider = scriptedProvider([outage(), outage()]);
+    assert.equal((await withResilience(provider, OPTIONS).transcribe(audio)).text, "ok");
+    assert.equal(provider.calls, 3);
+  });
+
+  await t.step("gives up after the configured retries", async () => {
+    const provider = scriptedProvider([outage(), outage(), outage()]);
+    await assert.rejects(withResilience(provider, OPTIONS).transcribe(audio), hasCode("provider_down"));
+    assert.equal(provider.calls, 3);
+  });
+
+  await t.step("doesn't retry what can't succeed", async () => {
+    const provider = scriptedProvider([new TranscriptionError("auth", "401")]);
+    await assert.rejects(withResilience(provider, OPTIONS).transcribe(audio), hasCode("auth"));
+    assert.equal(provider.calls, 1);
+  });
+
+  await t.step("doesn't wait out a Retry-After longer than allowed", async () => {
+    const provider = scriptedProvider([new TranscriptionError("quota", "429", true, 60_000)]);
+    await assert.rejects(withResilience(provider, OPTIONS).transcribe(audio), hasCode("quota"));
+    assert.equal(provider.calls, 1);
+  });
+
+  await t.step("opens the circuit after repeated outages and probes after the cooldown", async () => {
+    const provider = scriptedProvider(Array.from({ length: 6 }, outage));
+    const resilient = withResilience(provider, OPTIONS);
+    await assert.rejects(resilient.transcribe(audio), hasCode("provider_down"));
+    await assert.rejects(resilient.transcribe(audio), hasCode("provider_down"));
+    assert.equal(provider.calls, 6);
+
+    // Open: fails fast without calling the provider
+    await assert.rejects(
+      resilient.transcribe(audio),
+      (error) => hasCode("provider_down")(error) && !(error as TranscriptionError).retryable,
+    );
+    assert.equal(provider.calls, 6);
+
+    // The probe after the cooldown succeeds and closes the circuit
+    await new Promise((resolve) => setTimeout(resolve, OPTIONS.breakerCooldownMs + 10));
+    assert.equal((await resilient.transcribe(audio)).text, "ok");
+    assert.equal((await resilient.transcribe(audio)).text, "ok");
+    assert.equal(provider.calls, 8);
+  });
+
+  await t.step("bad input doesn't count against the provider", async () => {
+    const provider = scriptedProvider(Array.from({ length: 3 }, () => new TranscriptionError("bad_audio", "400")));
+    const resilient = withResilience(provider, OPTIONS);
+    for (let i = 0; i < 3; i++) {
+      await assert.rejects(resilient.transcribe(audio), hasCode("bad_audio"));
+    }
+    assert.equal((await resilient.transcribe(audio)).text, "ok");
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Long-recording support
+ *
+ * Splits long recordings at silence boundaries, transcribes the segments
+ * with bounded concurrency and stitches the text back together in order.
+ * Each segment is a separate provider call, so the resilience wrapper
+ * retries a failed segment on its own.
+ */
+
+import { encodeWav, frameLevels } from "./normalize.ts";
+import type { AudioEvent, SpeechEmotion } from "./sensevoice.ts";
+import type { TranscriptionOptions, TranscriptionProvider, TranscriptionResult } from "./transcription.ts";
+
+export interface TranscriptSegment {
+  startMs: number;
+  endMs: number;
+  text: string;
+  emotion?: SpeechEmotion;
+  event?: AudioEvent;
+}
+
+export interface SegmentOptions {
+  // Recordings longer than this are split
+  maxSegmentMs: number;
+  // Provider calls in flight at once
+  concurrency: number;
+}
+
+export interface SegmentedTranscription extends TranscriptionResult {
+  segments: TranscriptSegment[];
+}
+
+// Sample ranges of at most maxSegmentMs each, cut at the quietest frame of
+// the last third of every window so words aren't split in half
+export function planSegments(
+  samples: Float32Array,
+  sampleRate: number,
+  maxSegmentMs: number,
+): { start: number; end: number }[] {
+  const maxSamples = Math.floor((sampleRate * maxSegmentMs) / 1000);
+  if (samples.length <= maxSamples) {
+    return [{ start: 0, end: samples.length }];
+  }
+
+  const { frameSize, levels } = frameLevels(samples, sampleRate);
+  const framesPerSegment = Math.max(1, Math.floor(maxSamples / frameSize));
+  const searchFrames = Math.max(1, Math.floor(framesPerSegment / 3));
+  const ranges: { start: number; end: number }[] = [];
+  let startFrame = 0;
+
+  while ((levels.length - startFrame) * frameSize > maxSamples) {
+    let cutFrame = startFrame + framesPerSegment;
+    for (let frame = cutFrame - 1; frame >= startFrame + framesPerSegment - searchFrames; frame--) {
+      if (levels[frame] < levels[cutFrame]) {
+        cutFrame = frame;
+      }
+    }
+    ranges.push({ start: startFrame * frameSize, end: cutFrame * frameSize });
+    startFrame = cutFrame;
+  }
+  ranges.push({ start: startFrame * frameSize, end: samples.length });
+
+  return ranges;
+}
+
+// Join segment texts, with a space only between two non-CJK words
+export function stitchTexts(texts: string[]): string {
+  const cjk = /[\u3000-\u303f\u3400-\u9fff\uff00-\uffef]/;
+  return texts
+    .map((text) => text.trim())
+    .filter(Boolean)
+    .reduce((joined, text) => {
+      if (!joined) {
+        return text;
+      }
+      const boundary = joined.slice(-1) + text[0];
+      return cjk.test(boundary) ? joined + text : `${joined} ${text}`;
+    }, "");
+}
+
+// Run tasks with at most `limit` in flight, keeping results in order
+async function mapWithConcurrency<T, R>(items: T[], limit: number, task: (item: T) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker));
+  return results;
+}
+
+export async function transcribeSegmented(
+  provider: TranscriptionProvider,
+  samples: Float32Array,
+  sampleRate: number,
+  options: SegmentOptions,
+  transcriptionOptions: TranscriptionOptions = {},
+): Promise<SegmentedTranscription> {
+  const ranges = planSegments(samples, sampleRate, options.maxSegmentMs);
+
+  const results = await mapWithConcurrency(ranges, options.concurrency, async ({ start, end }) => {
+    const audio = encodeWav(samples.subarray(start, end), sampleRate);
+    const result = await provider.transcribe(audio, { ...transcriptionOptions, mimeType: "audio/wav" });
+    return {
+      result,
+      segment: {
+        startMs: Math.round((start / sampleRate) * 1000),
+        endMs: Math.round((end / sampleRate) * 1000),
+        text: result.text.trim(),
+        emotion: result.emotion,
+        event: result.event,
+      },
+    };
+  });
+
+  // Recording-level metadata comes from the first segment that reports it
+  const first = <K extends keyof TranscriptionResult>(key: K) =>
+    results.find(({ result }) => result[key] !== undefined)?.result[key];
+  const segments = results.map((result) => result.segment);
+  return {
+    text: stitchTexts(segments.map((segment) => segment.text)),
+    language: first("language"),
+    emotion: first("emotion"),
+    event: first("event"),
+    itn: first("itn"),
+    segments,
+  };
+}
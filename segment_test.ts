@@ -0,0 +1,46 @@
+import assert from "node:assert/strict";
+import { planSegments, stitchTexts } from "./segment.ts";
+
+const RATE = 16000;
+
+// Tone with a silent gap starting at each of `gaps` (seconds)
+function speechWithGaps(seconds: number, gaps: number[], gapSeconds = 0.3): Float32Array {
+  return Float32Array.from({ length: seconds * RATE }, (_, i) => {
+    const time = i / RATE;
+    const silent = gaps.some((gap) => time >= gap && time < gap + gapSeconds);
+    return silent ? 0 : 0.5 * Math.sin((2 * Math.PI * 440 * i) / RATE);
+  });
+}
+
+Deno.test("planSegments", async (t) => {
+  await t.step("keeps a short recording whole", () => {
+    assert.deepEqual(planSegments(new Float32Array(RATE * 5), RATE, 10_000), [{ start: 0, end: RATE * 5 }]);
+  });
+
+  await t.step("covers the recording with contiguous ranges", () => {
+    const samples = speechWithGaps(25, []);
+    const ranges = planSegments(samples, RATE, 10_000);
+    assert.equal(ranges[0].start, 0);
+    assert.equal(ranges.at(-1)?.end, samples.length);
+    for (let i = 1; i < ranges.length; i++) {
+      assert.equal(ranges[i].start, ranges[i - 1].end);
+    }
+    for (const { start, end } of ranges) {
+      assert.ok(end - start <= RATE * 10);
+    }
+  });
+
+  await t.step("cuts in silence near the end of the window", () => {
+    const ranges = planSegments(speechWithGaps(18, [8]), RATE, 10_000);
+    assert.equal(ranges.length, 2);
+    const cut = ranges[0].end / RATE;
+    assert.ok(cut >= 8 && cut < 8.3, `cut at ${cut}s`);
+  });
+});
+
+Deno.test("stitchTexts", () => {
+  assert.equal(stitchTexts(["Hello there.", " How are you? ", ""]), "Hello there. How are you?");
+  assert.equal(stitchTexts(["你好，", "世界。"]), "你好，世界。");
+  assert.equal(stitchTexts(["打开", "README", "文件"]), "打开README文件");
+  assert.equal(stitchTexts([]), "");
+});
@@ -0,0 +1,93 @@
+/**
+ * SenseVoice rich transcription tags
+ *
+ * SenseVoice models prefix each sentence with inline tags such as
+ * `<|zh|><|NEUTRAL|><|Speech|><|withitn|>`. This strips them out of the
+ * text and reports them as language, emotion, audio event and ITN flag.
+ */
+
+import { stitchTexts } from "./segment.ts";
+
+export type SpeechEmotion =
+  | "happy"
+  | "sad"
+  | "angry"
+  | "neutral"
+  | "fearful"
+  | "disgusted"
+  | "surprised"
+  | "unknown";
+
+export type AudioEvent =
+  | "speech"
+  | "bgm"
+  | "applause"
+  | "laughter"
+  | "cry"
+  | "sneeze"
+  | "breath"
+  | "cough"
+  | "unknown";
+
+export interface RichTranscript {
+  // Text with every tag removed
+  text: string;
+  language?: string;
+  emotion?: SpeechEmotion;
+  event?: AudioEvent;
+  // Whether inverse text normalization (numbers, punctuation) was applied
+  itn?: boolean;
+}
+
+const LANGUAGE_TAGS = new Set(["zh", "en", "yue", "ja", "ko", "nospeech"]);
+
+const EMOTION_TAGS: Record<string, SpeechEmotion> = {
+  HAPPY: "happy",
+  SAD: "sad",
+  ANGRY: "angry",
+  NEUTRAL: "neutral",
+  FEARFUL: "fearful",
+  DISGUSTED: "disgusted",
+  SURPRISED: "surprised",
+  EMO_UNKNOWN: "unknown",
+};
+
+const EVENT_TAGS: Record<string, AudioEvent> = {
+  Speech: "speech",
+  BGM: "bgm",
+  Applause: "applause",
+  Laughter: "laughter",
+  Cry: "cry",
+  Sneeze: "sneeze",
+  Breath: "breath",
+  Cough: "cough",
+  Event_UNK: "unknown",
+};
+
+const TAG_PATTERN = /<\|([^|<>]*)\|>/g;
+
+// Strip SenseVoice tags from a transcript. When tags repeat per sentence the
+// first value of each kind wins; text without tags passes through unchanged.
+export function parseRichTranscript(raw: string): RichTranscript {
+  const result: RichTranscript = { text: raw };
+  let tagged = false;
+
+  for (const [, tag] of raw.matchAll(TAG_PATTERN)) {
+    tagged = true;
+    if (LANGUAGE_TAGS.has(tag)) {
+      result.language ??= tag;
+    } else if (tag in EMOTION_TAGS) {
+      result.emotion ??= EMOTION_TAGS[tag];
+    } else if (tag in EVENT_TAGS) {
+      result.event ??= EVENT_TAGS[tag];
+    } else if (tag === "withitn" || tag === "woitn") {
+      result.itn ??= tag === "withitn";
+    }
+  }
+
+  if (tagged) {
+    // Tags separate sentences: rejoin them without spacing CJK text apart
+    result.text = stitchTexts(raw.split(TAG_PATTERN).filter((_, i) => i % 2 === 0));
+  }
+  return result;
+}
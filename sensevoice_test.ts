@@ -0,0 +1,41 @@
+import assert from "node:assert/strict";
+import { parseRichTranscript } from "./sensevoice.ts";
+
+Deno.test("parseRichTranscript", async (t) => {
+  await t.step("reads the tags and strips them from the text", () => {
+    assert.deepEqual(parseRichTranscript("<|zh|><|HAPPY|><|Speech|><|withitn|>今天天气不错。"), {
+      text: "今天天气不错。",
+      language: "zh",
+      emotion: "happy",
+      event: "speech",
+      itn: true,
+    });
+  });
+
+  await t.step("the first value of each kind wins across sentences", () => {
+    const parsed = parseRichTranscript(
+      "<|en|><|NEUTRAL|><|BGM|><|woitn|>first sentence.<|en|><|SAD|><|Speech|><|withitn|>Second sentence.",
+    );
+    assert.equal(parsed.text, "first sentence. Second sentence.");
+    assert.equal(parsed.emotion, "neutral");
+    assert.equal(parsed.event, "bgm");
+    assert.equal(parsed.itn, false);
+  });
+
+  await t.step("rejoins CJK sentences without spaces", () => {
+    assert.equal(parseRichTranscript("<|zh|>你好。<|zh|>再见。").text, "你好。再见。");
+  });
+
+  await t.step("maps unknown markers and ignores unrecognized tags", () => {
+    const parsed = parseRichTranscript("<|nospeech|><|EMO_UNKNOWN|><|Event_UNK|><|custom|>");
+    assert.equal(parsed.text, "");
+    assert.equal(parsed.language, "nospeech");
+    assert.equal(parsed.emotion, "unknown");
+    assert.equal(parsed.event, "unknown");
+    assert.equal(parsed.itn, undefined);
+  });
+
+  await t.step("passes untagged text through", () => {
+    assert.deepEqual(parseRichTranscript("  plain text with <html> "), { text: "  plain text with <html> " });
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Text-to-speech providers
+ *
+ * Speech synthesis backends implement SpeechProvider, the reverse of the
+ * transcription providers: SiliconFlow's /audio/speech endpoint, or a fake
+ * provider that renders a tone for offline tests. Failures are reported
+ * with the same TranscriptionError taxonomy.
+ */
+
+import { encodeWav } from "./normalize.ts";
+import { classifyResponse, TranscriptionError } from "./transcription.ts";
+
+export interface SpeechOptions {
+  // Overrides the provider's configured voice for this call
+  voice?: string;
+  // Playback speed, 0.25 to 4
+  speed?: number;
+  // Cancels the provider request; a TimeoutError reason is reported as "timeout"
+  signal?: AbortSignal;
+}
+
+export interface SynthesizedSpeech {
+  audio: Uint8Array<ArrayBuffer>;
+  mimeType: string;
+}
+
+export interface SpeechProvider {
+  name: string;
+  model: string;
+  voice: string;
+  synthesize(text: string, options?: SpeechOptions): Promise<SynthesizedSpeech>;
+  // Problem with the provider's settings (missing key), or null
+  checkConfiguration(): string | null;
+}
+
+export type SpeechProviderName = "siliconflow" | "fake";
+
+export const SPEECH_PROVIDER_NAMES: SpeechProviderName[] = ["siliconflow", "fake"];
+
+// SiliconFlow's OpenAI-style POST /v1/audio/speech, answering with MP3 bytes
+class SiliconFlowSpeechProvider implements SpeechProvider {
+  name = "siliconflow";
+
+  constructor(public model: string, public voice: string, private apiKey: string | undefined) {}
+
+  checkConfiguration(): string | null {
+    return this.apiKey ? null : "SILICONFLOW_API_KEY not configured";
+  }
+
+  async synthesize(text: string, options: SpeechOptions = {}): Promise<SynthesizedSpeech> {
+    if (!this.apiKey) {
+      throw new TranscriptionError("auth", "SILICONFLOW_API_KEY not configured");
+    }
+
+    let response: Response;
+    try {
+      response = await fetch("https://api.siliconflow.cn/v1/audio/speech", {
+        method: "POST",
+        headers: { "Authorization": `Bearer ${this.apiKey}`, "Content-Type": "application/json" },
+        body: JSON.stringify({
+          model: this.model,
+          input: text,
+          voice: options.voice ?? this.voice,
+          response_format: "mp3",
+          ...(options.speed !== undefined ? { speed: options.speed } : {}),
+        }),
+        signal: options.signal,
+      });
+    } catch (error) {
+      const { signal } = options;
+      if (signal?.aborted && signal.reason instanceof DOMException && signal.reason.name === "TimeoutError") {
+        throw new TranscriptionError("timeout", `${this.name} speech API did not respond in time`, true);
+      }
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new TranscriptionError("provider_down", `${this.name} speech API unreachable: ${reason}`, true);
+    }
+
+    if (!response.ok) {
+      throw classifyResponse(this.name, response.status, await response.text(), response.headers.get("Retry-After"));
+    }
+    return {
+      audio: new Uint8Array(await response.arrayBuffer()),
+      mimeType: response.headers.get("Content-Type")?.split(";")[0] || "audio/mpeg",
+    };
+  }
+}
+
+// Deterministic provider for offline tests: a quiet 440 Hz tone lasting
+// about as long as the text would take to read, as 16 kHz WAV
+class FakeSpeechProvider implements SpeechProvider {
+  name = "fake";
+  model = "fake";
+  voice = "fake";
+
+  checkConfiguration(): string | null {
+    return null;
+  }
+
+  synthesize(text: string, options: SpeechOptions = {}): Promise<SynthesizedSpeech> {
+    const sampleRate = 16000;
+    const seconds = Math.min(10, Math.max(0.5, text.length * 0.06)) / (options.speed ?? 1);
+    const samples = new Float32Array(Math.round(seconds * sampleRate));
+    for (let i = 0; i < samples.length; i++) {
+      samples[i] = 0.1 * Math.sin((2 * Math.PI * 440 * i) / sampleRate);
+    }
+    return Promise.resolve({ audio: encodeWav(samples, sampleRate), mimeType: "audio/wav" });
+  }
+}
+
+// Settings for every speech provider; only the selected one is used
+export interface SpeechSettings {
+  provider: SpeechProviderName;
+  siliconflow: { model: string; voice: string; apiKey?: string };
+}
+
+// Build the provider selected by TTS_PROVIDER
+export function createSpeechProvider(settings: SpeechSettings): SpeechProvider {
+  switch (settings.provider) {
+    case "siliconflow":
+      return new SiliconFlowSpeechProvider(
+        settings.siliconflow.model,
+        settings.siliconflow.voice,
+        settings.siliconflow.apiKey,
+      );
+
+    case "fake":
+      return new FakeSpeechProvider();
+
+    default:
+      throw new Error(`Unknown TTS_PROVIDER: ${settings.provider}`);
+  }
+}
@@ -0,0 +1,389 @@
+/**
+ * Storage backends
+ *
+ * Sessions, transcript history, MCP sessions and counters all go through
+ * the small key-value Storage interface below, so the server can run on
+ * Deno KV (Deno Deploy), purely in memory (tests, single process) or on a
+ * SQLite file when self-hosting.
+ */
+
+import type { DatabaseSync } from "node:sqlite";
+
+// Hierarchical key; entries are ordered part by part
+export type StorageKey = string[];
+
+export interface StorageEntry<T> {
+  value: T;
+  // Changes on every write; pass it to compareAndSet
+  version: string;
+}
+
+export interface WriteOptions {
+  // Drop the entry after this many milliseconds
+  expireIn?: number;
+}
+
+export interface ListOptions {
+  limit: number;
+  // Descending key order
+  reverse?: boolean;
+  // Returned by the previous page
+  cursor?: string;
+}
+
+export interface Storage {
+  get<T>(key: StorageKey): Promise<StorageEntry<T> | null>;
+  set<T>(key: StorageKey, value: T, options?: WriteOptions): Promise<void>;
+  delete(key: StorageKey): Promise<void>;
+  // Write only if the entry is still at `version` (null: only if it doesn't
+  // exist). Returns false when another writer got there first.
+  compareAndSet<T>(key: StorageKey, version: string | null, value: T, options?: WriteOptions): Promise<boolean>;
+  // Entries below `prefix`; `cursor` is set when there may be another page
+  list<T>(prefix: StorageKey, options: ListOptions): Promise<{ values: T[]; cursor?: string }>;
+  // Atomically add `delta` to a counter and return the new total. The counter
+  // expires `expireIn` after it was created, not after every increment.
+  increment(key: StorageKey, delta: number, options?: WriteOptions): Promise<number>;
+  close(): void;
+}
+
+export type StorageBackend = "kv" | "memory" | "sqlite";
+
+export const STORAGE_BACKENDS: StorageBackend[] = ["kv", "memory", "sqlite"];
+
+interface Counter {
+  count: number;
+  expiresAt?: number;
+}
+
+// Counters are a compare-and-set loop over the other operations, so they are
+// atomic wherever compareAndSet is
+async function incrementCounter(
+  storage: Storage,
+  key: StorageKey,
+  delta: number,
+  options: WriteOptions = {},
+): Promise<number> {
+  while (true) {
+    const now = Date.now();
+    const entry = await storage.get<Counter>(key);
+    const current = entry && (entry.value.expiresAt === undefined || entry.value.expiresAt > now) ? entry.value : null;
+    const expiresAt = current ? current.expiresAt : options.expireIn !== undefined ? now + options.expireIn : undefined;
+    const counter: Counter = { count: (current?.count ?? 0) + delta, expiresAt };
+
+    if (delta === 0) {
+      return counter.count;
+    }
+    const expireIn = expiresAt !== undefined ? Math.max(1, expiresAt - now) : undefined;
+    if (await storage.compareAndSet(key, entry?.version ?? null, counter, { expireIn })) {
+      return counter.count;
+    }
+  }
+}
+
+// Deno KV deletes expired entries lazily, some time after `expireIn` has
+// passed. Entries written with an expiry carry its time so reads can hide
+// them right away, like the other backends; plain values are stored as is.
+const KV_EXPIRES_AT = "__expiresAt";
+
+interface KvExpiring {
+  [KV_EXPIRES_AT]: number;
+  value: unknown;
+}
+
+function isKvExpiring(value: unknown): value is KvExpiring {
+  return typeof value === "object" && value !== null && KV_EXPIRES_AT in value;
+}
+
+function kvWrap(value: unknown, { expireIn }: WriteOptions): unknown {
+  return expireIn === undefined ? value : { [KV_EXPIRES_AT]: Date.now() + expireIn, value };
+}
+
+// The stored value, or undefined once it has expired
+function kvUnwrap<T>(value: unknown): { value: T } | undefined {
+  if (!isKvExpiring(value)) {
+    return { value: value as T };
+  }
+  return value[KV_EXPIRES_AT] > Date.now() ? { value: value.value as T } : undefined;
+}
+
+export function createKvStorage(kv: Deno.Kv): Storage {
+  const storage: Storage = {
+    async get<T>(key: StorageKey) {
+      const entry = await kv.get(key);
+      const live = entry.versionstamp === null ? undefined : kvUnwrap<T>(entry.value);
+      return live && entry.versionstamp ? { value: live.value, version: entry.versionstamp } : null;
+    },
+
+    async set(key, value, options = {}) {
+      await kv.set(key, kvWrap(value, options), options);
+    },
+
+    async delete(key) {
+      await kv.delete(key);
+    },
+
+    async compareAndSet(key, version, value, options = {}) {
+      // An expired entry KV hasn't deleted yet counts as missing
+      let expected = version;
+      if (version === null) {
+        const entry = await kv.get(key);
+        if (entry.versionstamp !== null && kvUnwrap(entry.value)) {
+          return false;
+        }
+        expected = entry.versionstamp;
+      }
+      const result = await kv.atomic()
+        .check({ key, versionstamp: expected })
+        .set(key, kvWrap(value, options), options)
+        .commit();
+      return result.ok;
+    },
+
+    async list<T>(prefix: StorageKey, { limit, reverse, cursor }: ListOptions) {
+      // Expired entries are skipped, so read on until the page is full
+      const iter = kv.list({ prefix }, { reverse, cursor });
+      const values: T[] = [];
+      for await (const entry of iter) {
+        const live = kvUnwrap<T>(entry.value);
+        if (live) {
+          values.push(live.value);
+          if (values.length === limit) {
+            break;
+          }
+        }
+      }
+      return { values, cursor: values.length === limit && iter.cursor ? iter.cursor : undefined };
+    },
+
+    increment: (key, delta, options) => incrementCounter(storage, key, delta, options),
+
+    close() {
+      kv.close();
+    },
+  };
+  return storage;
+}
+
+// Keys are stored as their parts joined by U+0001, which sorts part by part
+// and turns a prefix into a contiguous range. (Not NUL: SQLite text stops there.)
+const SEPARATOR = "\u0001";
+
+function encodeKey(key: StorageKey): string {
+  return key.join(SEPARATOR);
+}
+
+function prefixRange(prefix: StorageKey): [string, string] {
+  return [encodeKey(prefix) + SEPARATOR, encodeKey(prefix) + "\u0002"];
+}
+
+// Cursors for the memory and SQLite backends are the last key returned
+function encodeCursor(key: string): string {
+  return encodeURIComponent(key);
+}
+
+function decodeCursor(cursor: string | undefined): string | undefined {
+  return cursor === undefined ? undefined : decodeURIComponent(cursor);
+}
+
+export function createMemoryStorage(): Storage {
+  const entries = new Map<string, { value: unknown; version: string; expiresAt?: number }>();
+  let nextVersion = 1;
+
+  const live = (key: string) => {
+    const entry = entries.get(key);
+    if (entry?.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      entries.delete(key);
+      return undefined;
+    }
+    return entry;
+  };
+
+  const write = (key: StorageKey, value: unknown, { expireIn }: WriteOptions = {}) => {
+    // Values are copied like a real store would, so callers can't mutate them in place
+    entries.set(encodeKey(key), {
+      value: structuredClone(value),
+      version: String(nextVersion++),
+      expiresAt: expireIn !== undefined ? Date.now() + expireIn : undefined,
+    });
+  };
+
+  const storage: Storage = {
+    get<T>(key: StorageKey) {
+      const entry = live(encodeKey(key));
+      return Promise.resolve(entry ? { value: structuredClone(entry.value) as T, version: entry.version } : null);
+    },
+
+    set(key, value, options) {
+      write(key, value, options);
+      return Promise.resolve();
+    },
+
+    delete(key) {
+      entries.delete(encodeKey(key));
+      return Promise.resolve();
+    },
+
+    compareAndSet(key, version, value, options) {
+      if ((live(encodeKey(key))?.version ?? null) !== version) {
+        return Promise.resolve(false);
+      }
+      write(key, value, options);
+      return Promise.resolve(true);
+    },
+
+    list<T>(prefix: StorageKey, { limit, reverse, cursor }: ListOptions) {
+      const [start, end] = prefixRange(prefix);
+      const after = decodeCursor(cursor);
+      const keys = [...entries.keys()]
+        .filter((key) => key >= start && key < end)
+        .filter((key) => after === undefined || (reverse ? key < after : key > after))
+        .sort();
+      if (reverse) {
+        keys.reverse();
+      }
+
+      const page: string[] = [];
+      for (const key of keys) {
+        if (page.length >= limit) {
+          break;
+        }
+        if (live(key)) {
+          page.push(key);
+        }
+      }
+      return Promise.resolve({
+        values: page.map((key) => structuredClone(entries.get(key)!.value) as T),
+        cursor: page.length === limit ? encodeCursor(page[page.length - 1]) : undefined,
+      });
+    },
+
+    increment: (key, delta, options) => incrementCounter(storage, key, delta, options),
+
+    close() {
+      entries.clear();
+    },
+  };
+  return storage;
+}
+
+// Expired rows are hidden on read and purged at most this often
+const SQLITE_PURGE_INTERVAL = 60 * 1000;
+
+export function createSqliteStorage(db: DatabaseSync): Storage {
+  db.exec(`
+    PRAGMA journal_mode = WAL;
+    PRAGMA busy_timeout = 5000;
+    CREATE TABLE IF NOT EXISTS entries (
+      key TEXT PRIMARY KEY,
+      value TEXT NOT NULL,
+      version INTEGER NOT NULL,
+      expires_at INTEGER
+    );
+    CREATE INDEX IF NOT EXISTS entries_expires_at ON entries (expires_at);
+  `);
+
+  const selectEntry = db.prepare(
+    "SELECT value, version FROM entries WHERE key = ? AND (expires_at IS NULL OR expires_at > ?)",
+  );
+  const upsertEntry = db.prepare(`
+    INSERT INTO entries (key, value, version, expires_at) VALUES (?, ?, 1, ?)
+    ON CONFLICT (key) DO UPDATE SET value = excluded.value, version = entries.version + 1, expires_at = excluded.expires_at
+  `);
+  const deleteEntry = db.prepare("DELETE FROM entries WHERE key = ?");
+  const purgeExpired = db.prepare("DELETE FROM entries WHERE expires_at IS NOT NULL AND expires_at <= ?");
+  const listAscending = db.prepare(`
+    SELECT key, value FROM entries
+    WHERE key >= ? AND key < ? AND key > ? AND (expires_at IS NULL OR expires_at > ?)
+    ORDER BY key ASC LIMIT ?
+  `);
+  const listDescending = db.prepare(`
+    SELECT key, value FROM entries
+    WHERE key >= ? AND key < ? AND key < ? AND (expires_at IS NULL OR expires_at > ?)
+    ORDER BY key DESC LIMIT ?
+  `);
+
+  let lastPurge = 0;
+
+  const write = (key: StorageKey, value: unknown, { expireIn }: WriteOptions = {}) => {
+    const now = Date.now();
+    if (now - lastPurge > SQLITE_PURGE_INTERVAL) {
+      purgeExpired.run(now);
+      lastPurge = now;
+    }
+    upsertEntry.run(encodeKey(key), JSON.stringify(value), expireIn !== undefined ? now + expireIn : null);
+  };
+
+  const read = (key: StorageKey) =>
+    selectEntry.get(encodeKey(key), Date.now()) as { value: string; version: number } | undefined;
+
+  const storage: Storage = {
+    get<T>(key: StorageKey) {
+      const row = read(key);
+      return Promise.resolve(row ? { value: JSON.parse(row.value) as T, version: String(row.version) } : null);
+    },
+
+    set(key, value, options) {
+      write(key, value, options);
+      return Promise.resolve();
+    },
+
+    delete(key) {
+      deleteEntry.run(encodeKey(key));
+      return Promise.resolve();
+    },
+
+    compareAndSet(key, version, value, options) {
+      // IMMEDIATE takes the write lock up front, so other processes sharing
+      // the file can't slip in between the check and the write
+      db.exec("BEGIN IMMEDIATE");
+      try {
+        const row = read(key);
+        const matches = (row ? String(row.version) : null) === version;
+        if (matches) {
+          write(key, value, options);
+        }
+        db.exec("COMMIT");
+        return Promise.resolve(matches);
+      } catch (error) {
+        db.exec("ROLLBACK");
+        throw error;
+      }
+    },
+
+    list<T>(prefix: StorageKey, { limit, reverse, cursor }: ListOptions) {
+      const [start, end] = prefixRange(prefix);
+      const after = decodeCursor(cursor);
+      const rows = (reverse
+        ? listDescending.all(start, end, after ?? end, Date.now(), limit)
+        : listAscending.all(start, end, after ?? "", Date.now(), limit)) as { key: string; value: string }[];
+      return Promise.resolve({
+        values: rows.map((row) => JSON.parse(row.value) as T),
+        cursor: rows.length === limit ? encodeCursor(rows[rows.length - 1].key) : undefined,
+      });
+    },
+
+    increment: (key, delta, options) => incrementCounter(storage, key, delta, options),
+
+    close() {
+      db.close();
+    },
+  };
+  return storage;
+}
+
+// Open the backend selected by STORAGE_BACKEND
+export async function openStorage(backend: StorageBackend, path?: string): Promise<Storage> {
+  switch (backend) {
+    case "kv":
+      return createKvStorage(await Deno.openKv(path));
+    case "memory":
+      return createMemoryStorage();
+    case "sqlite": {
+      // Loaded on demand so Deno Deploy never needs node:sqlite
+      const { DatabaseSync } = await import("node:sqlite");
+      return createSqliteStorage(new DatabaseSync(path || "opencode-voice.db"));
+    }
+    default:
+      throw new Error(`Unknown STORAGE_BACKEND: ${backend}`);
+  }
+}
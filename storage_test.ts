@@ -0,0 +1,84 @@
+import assert from "node:assert/strict";
+import { DatabaseSync } from "node:sqlite";
+import { createKvStorage, createMemoryStorage, createSqliteStorage, type Storage } from "./storage.ts";
+
+// Every backend runs the same suite against a fresh, empty store
+const BACKENDS: Record<string, () => Promise<Storage>> = {
+  kv: async () => createKvStorage(await Deno.openKv(":memory:")),
+  memory: () => Promise.resolve(createMemoryStorage()),
+  sqlite: () => Promise.resolve(createSqliteStorage(new DatabaseSync(":memory:"))),
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+for (const [name, open] of Object.entries(BACKENDS)) {
+  Deno.test(`${name} storage`, async (t) => {
+    const storage = await open();
+
+    await t.step("get, set and delete", async () => {
+      assert.equal(await storage.get(["a", "missing"]), null);
+      await storage.set(["a", "1"], { text: "hello", n: 1 });
+      assert.deepEqual((await storage.get(["a", "1"]))?.value, { text: "hello", n: 1 });
+      await storage.delete(["a", "1"]);
+      assert.equal(await storage.get(["a", "1"]), null);
+    });
+
+    await t.step("compareAndSet", async () => {
+      assert.equal(await storage.compareAndSet(["cas"], null, 1), true);
+      assert.equal(await storage.compareAndSet(["cas"], null, 2), false);
+      const entry = await storage.get<number>(["cas"]);
+      assert.equal(await storage.compareAndSet(["cas"], entry!.version, 3), true);
+      // The version moved on with the last write
+      assert.equal(await storage.compareAndSet(["cas"], entry!.version, 4), false);
+      assert.equal((await storage.get(["cas"]))?.value, 3);
+    });
+
+    await t.step("list pages in key order", async () => {
+      for (const id of ["c", "a", "b", "d"]) {
+        await storage.set(["list", id], id);
+      }
+      await storage.set(["listed"], "outside the prefix");
+
+      const first = await storage.list<string>(["list"], { limit: 3 });
+      assert.deepEqual(first.values, ["a", "b", "c"]);
+      assert.ok(first.cursor);
+      const second = await storage.list<string>(["list"], { limit: 3, cursor: first.cursor });
+      assert.deepEqual(second.values, ["d"]);
+      assert.equal(second.cursor, undefined);
+
+      const reversed = await storage.list<string>(["list"], { limit: 2, reverse: true });
+      assert.deepEqual(reversed.values, ["d", "c"]);
+      const rest = await storage.list<string>(["list"], { limit: 2, reverse: true, cursor: reversed.cursor });
+      assert.deepEqual(rest.values, ["b", "a"]);
+    });
+
+    await t.step("increment", async () => {
+      assert.equal(await storage.increment(["counter"], 0), 0);
+      assert.equal(await storage.increment(["counter"], 2), 2);
+      assert.equal(await storage.increment(["counter"], 3), 5);
+      assert.equal(await storage.increment(["counter"], 0), 5);
+      const counts = await Promise.all([1, 1, 1, 1].map(() => storage.increment(["concurrent"], 1)));
+      assert.equal(Math.max(...counts), 4);
+    });
+
+    await t.step("expired entries are gone right away", async () => {
+      await storage.set(["expiring", "a"], "a", { expireIn: 30 });
+      await storage.set(["expiring", "b"], "b");
+      await storage.set(["expiring", "c"], "c", { expireIn: 30 });
+      await storage.increment(["expiring-counter"], 7, { expireIn: 30 });
+      assert.equal((await storage.get(["expiring", "a"]))?.value, "a");
+      await sleep(60);
+
+      assert.equal(await storage.get(["expiring", "a"]), null);
+      const { values, cursor } = await storage.list<string>(["expiring"], { limit: 1 });
+      assert.deepEqual(values, ["b"]);
+      assert.ok(cursor);
+      assert.equal(await storage.increment(["expiring-counter"], 1), 1);
+      // An expired entry counts as missing for compareAndSet
+      assert.equal(await storage.compareAndSet(["expiring", "c"], null, "new"), true);
+      assert.equal((await storage.get(["expiring", "c"]))?.value, "new");
+    });
+
+    storage.close();
+  });
+}
@@ -0,0 +1,167 @@
+/**
+ * Live transcription stream
+ *
+ * WebSocket protocol behind /api/stream/:session_id. While the user speaks,
+ * the recording page sends binary frames of 16 kHz mono 16-bit PCM; the
+ * server answers with interim hypotheses (when enabled) by re-transcribing a
+ * rolling window whenever new speech has arrived, and with the final result
+ * once the client sends {"type":"stop"}.
+ */
+
+import { AudioValidationError } from "./audio.ts";
+import { errorFields, logger } from "./log.ts";
+import { detectSpeech, encodeWav, TARGET_SAMPLE_RATE } from "./normalize.ts";
+import { RateLimitError } from "./ratelimit.ts";
+import { TranscriptionError, type TranscriptionOptions, type TranscriptionProvider } from "./transcription.ts";
+
+export interface StreamOptions {
+  provider: TranscriptionProvider;
+  // Language, model and hotwords for the interim hypotheses
+  transcriptionOptions?: TranscriptionOptions;
+  // How often to send an interim hypothesis; 0 disables them
+  partialIntervalMs: number;
+  // Trailing audio re-transcribed for each interim hypothesis
+  partialWindowMs: number;
+  // Audio received since the last hypothesis has to be louder than this
+  // (dBFS RMS) somewhere to be worth a new one
+  silenceThresholdDb: number;
+  maxDurationMs: number;
+  // Account for the audio sent with one interim hypothesis; throws
+  // RateLimitError to stop them once a quota is used up
+  chargePartial?(seconds: number): Promise<void>;
+  // Transcribe the complete recording and store it; returns the final text
+  finalize(samples: Float32Array): Promise<string>;
+}
+
+type ServerMessage =
+  | { type: "partial"; text: string; windowStartMs: number }
+  | { type: "final"; text: string }
+  | { type: "error"; error: string; code?: string };
+
+export function handleTranscriptionStream(socket: WebSocket, options: StreamOptions): void {
+  const chunks: Int16Array[] = [];
+  const maxSamples = Math.floor((options.maxDurationMs / 1000) * TARGET_SAMPLE_RATE);
+  let totalSamples = 0;
+  let partialSamples = 0;
+  let partialInFlight = false;
+  let finished = false;
+  let timer: ReturnType<typeof setInterval> | undefined;
+
+  socket.binaryType = "arraybuffer";
+
+  const send = (message: ServerMessage) => {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+  };
+
+  // Received PCM from `fromSample` on, as floats
+  const collect = (fromSample: number): Float32Array => {
+    const samples = new Float32Array(totalSamples - fromSample);
+    let position = 0;
+    for (const chunk of chunks) {
+      for (let i = 0; i < chunk.length; i++, position++) {
+        if (position >= fromSample) {
+          samples[position - fromSample] = chunk[i] / 32768;
+        }
+      }
+    }
+    return samples;
+  };
+
+  const sendPartial = async () => {
+    if (partialInFlight || finished || totalSamples === partialSamples) {
+      return;
+    }
+    // Pauses don't change the hypothesis; re-sending the window for them
+    // would only cost another provider call
+    const fresh = collect(partialSamples);
+    partialSamples = totalSamples;
+    if (!detectSpeech(fresh, TARGET_SAMPLE_RATE, { silenceThresholdDb: options.silenceThresholdDb, paddingMs: 0 })) {
+      return;
+    }
+    partialInFlight = true;
+
+    const windowStart = Math.max(0, totalSamples - Math.floor((options.partialWindowMs / 1000) * TARGET_SAMPLE_RATE));
+    try {
+      await options.chargePartial?.((totalSamples - windowStart) / TARGET_SAMPLE_RATE);
+      const audio = encodeWav(collect(windowStart), TARGET_SAMPLE_RATE);
+      const { text } = await options.provider.transcribe(audio, {
+        ...options.transcriptionOptions,
+        mimeType: "audio/wav",
+      });
+      if (!finished) {
+        send({ type: "partial", text: text.trim(), windowStartMs: Math.round((windowStart / TARGET_SAMPLE_RATE) * 1000) });
+      }
+    } catch (error) {
+      if (error instanceof RateLimitError) {
+        // Out of quota: no more interim hypotheses; the final upload is checked on its own
+        logger.info("interim hypotheses stopped", { code: error.code });
+        clearInterval(timer);
+      } else {
+        // Interim hypotheses are best-effort; the final result reports real failures
+        logger.warn("partial transcription failed", errorFields(error));
+      }
+    } finally {
+      partialInFlight = false;
+    }
+  };
+
+  const finish = async () => {
+    finished = true;
+    clearInterval(timer);
+    try {
+      send({ type: "final", text: await options.finalize(collect(0)) });
+    } catch (error) {
+      send({
+        type: "error",
+        error: error instanceof Error ? error.message : "Unknown error",
+        code: error instanceof AudioValidationError || error instanceof TranscriptionError ||
+            error instanceof RateLimitError
+          ? error.code
+          : undefined,
+      });
+    } finally {
+      socket.close();
+    }
+  };
+
+  socket.onopen = () => {
+    if (options.partialIntervalMs > 0) {
+      timer = setInterval(sendPartial, options.partialIntervalMs);
+    }
+  };
+
+  socket.onmessage = (event) => {
+    if (finished) {
+      return;
+    }
+
+    if (event.data instanceof ArrayBuffer) {
+      const frame = new Int16Array(event.data, 0, Math.floor(event.data.byteLength / 2));
+      if (totalSamples + frame.length > maxSamples) {
+        finished = true;
+        clearInterval(timer);
+        send({ type: "error", error: "Recording is longer than the allowed duration", code: "too_long" });
+        socket.close();
+        return;
+      }
+      chunks.push(frame);
+      totalSamples += frame.length;
+      return;
+    }
+
+    try {
+      if (JSON.parse(event.data).type === "stop") {
+        finish();
+      }
+    } catch {
+      send({ type: "error", error: "Invalid message" });
+    }
+  };
+
+  socket.onclose = () => {
+    finished = true;
+    clearInterval(timer);
+  };
+}
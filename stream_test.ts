@@ -0,0 +1,134 @@
+import assert from "node:assert/strict";
+import { TARGET_SAMPLE_RATE } from "./normalize.ts";
+import { handleTranscriptionStream, type StreamOptions } from "./stream.ts";
+import type { TranscriptionProvider } from "./transcription.ts";
+
+// Stand-in for the server side of a WebSocket
+function fakeSocket() {
+  const socket = {
+    readyState: WebSocket.OPEN as number,
+    binaryType: "blob",
+    sent: [] as Record<string, unknown>[],
+    onopen: null as (() => void) | null,
+    onmessage: null as ((event: { data: unknown }) => void) | null,
+    onclose: null as (() => void) | null,
+    send(data: string) {
+      socket.sent.push(JSON.parse(data));
+    },
+    close() {
+      socket.readyState = WebSocket.CLOSED;
+      socket.onclose?.();
+    },
+  };
+  return socket;
+}
+
+// `ms` of 16 kHz PCM: a 440 Hz tone, or silence
+function frame(ms: number, speech: boolean): ArrayBuffer {
+  const samples = new Int16Array((TARGET_SAMPLE_RATE * ms) / 1000);
+  if (speech) {
+    samples.forEach((_, i) => samples[i] = Math.round(8000 * Math.sin((2 * Math.PI * 440 * i) / TARGET_SAMPLE_RATE)));
+  }
+  return samples.buffer;
+}
+
+const tick = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function open(options: Partial<StreamOptions> = {}) {
+  const calls: Uint8Array[] = [];
+  const provider: TranscriptionProvider = {
+    name: "fake",
+    model: "fake-1",
+    checkConfiguration: () => null,
+    transcribe(audio) {
+      calls.push(audio);
+      return Promise.resolve({ text: ` partial ${calls.length} ` });
+    },
+  };
+  const socket = fakeSocket();
+  handleTranscriptionStream(socket as unknown as WebSocket, {
+    provider,
+    partialIntervalMs: 20,
+    partialWindowMs: 1000,
+    silenceThresholdDb: -40,
+    maxDurationMs: 5000,
+    finalize: (samples) => Promise.resolve(`final ${samples.length}`),
+    ...options,
+  });
+  socket.onopen?.();
+  return { socket, calls, receive: (data: unknown) => socket.onmessage?.({ data }) };
+}
+
+Deno.test("transcription stream", async (t) => {
+  await t.step("sends a partial only after new speech", async () => {
+    const { socket, calls, receive } = open();
+    receive(frame(200, false));
+    await tick(50);
+    assert.equal(calls.length, 0);
+
+    receive(frame(200, true));
+    await tick(50);
+    assert.equal(calls.length, 1);
+    assert.deepEqual(socket.sent, [{ type: "partial", text: "partial 1", windowStartMs: 0 }]);
+
+    // Nothing new since the last partial
+    await tick(50);
+    assert.equal(calls.length, 1);
+    socket.close();
+  });
+
+  await t.step("transcribes only the trailing window", async () => {
+    const { socket, receive } = open({ partialWindowMs: 300 });
+    receive(frame(1000, true));
+    await tick(50);
+    assert.deepEqual(socket.sent, [{ type: "partial", text: "partial 1", windowStartMs: 700 }]);
+    socket.close();
+  });
+
+  await t.step("sends no partials when they are disabled", async () => {
+    const { socket, calls, receive } = open({ partialIntervalMs: 0 });
+    receive(frame(200, true));
+    await tick(50);
+    assert.equal(calls.length, 0);
+    socket.close();
+  });
+
+  await t.step("sends the final result on stop and closes", async () => {
+    const { socket, receive } = open({ partialIntervalMs: 0 });
+    receive(frame(100, true));
+    receive(frame(100, false));
+    receive(JSON.stringify({ type: "stop" }));
+    await tick(0);
+    assert.deepEqual(socket.sent, [{ type: "final", text: `final ${TARGET_SAMPLE_RATE / 5}` }]);
+    assert.equal(socket.readyState, WebSocket.CLOSED);
+  });
+
+  await t.step("reports a failed final result", async () => {
+    const { socket, receive } = open({
+      partialIntervalMs: 0,
+      finalize: () => Promise.reject(new Error("no speech")),
+    });
+    receive(JSON.stringify({ type: "stop" }));
+    await tick(0);
+    assert.deepEqual(socket.sent, [{ type: "error", error: "no speech" }]);
+  });
+
+  await t.step("stops a recording that runs too long", () => {
+    const { socket, receive } = open({ maxDurationMs: 300 });
+    receive(frame(200, true));
+    receive(frame(200, true));
+    assert.deepEqual(socket.sent, [{
+      type: "error",
+      error: "Recording is longer than the allowed duration",
+      code: "too_long",
+    }]);
+    assert.equal(socket.readyState, WebSocket.CLOSED);
+  });
+
+  await t.step("answers an unreadable message with an error", () => {
+    const { socket, receive } = open({ partialIntervalMs: 0 });
+    receive("not json");
+    assert.deepEqual(socket.sent, [{ type: "error", error: "Invalid message" }]);
+    socket.close();
+  });
+});
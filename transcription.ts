@@ -0,0 +1,317 @@
+/**
+ * Transcription providers
+ *
+ * Every speech-to-text backend implements TranscriptionProvider so the
+ * server can run against SiliconFlow, any OpenAI-compatible endpoint,
+ * a self-hosted whisper.cpp server, or a fake provider for offline tests.
+ */
+
+import { type AudioEvent, parseRichTranscript, type SpeechEmotion } from "./sensevoice.ts";
+
+export interface TranscriptionResult {
+  text: string;
+  // Detected language, when the provider reports one
+  language?: string;
+  // SenseVoice metadata, when the model emits its rich tags
+  emotion?: SpeechEmotion;
+  event?: AudioEvent;
+  itn?: boolean;
+}
+
+// Lift SenseVoice tags out of the provider's text; a language the provider
+// reports itself takes precedence over the tag
+function richResult(text: string, language: string | undefined): TranscriptionResult {
+  const rich = parseRichTranscript(text);
+  return { ...rich, language: language ?? rich.language };
+}
+
+export type TranscriptionLanguage = "zh" | "en" | "ja" | "auto";
+
+export const TRANSCRIPTION_LANGUAGES: TranscriptionLanguage[] = ["zh", "en", "ja", "auto"];
+
+export interface TranscriptionOptions {
+  // Container of the audio, e.g. "audio/webm"; defaults to WAV
+  mimeType?: string;
+  // Spoken language hint; "auto" (the default) lets the provider detect it
+  language?: TranscriptionLanguage;
+  // Overrides the provider's configured model for this call
+  model?: string;
+  // Domain words the provider should prefer, sent as the prompt
+  hotwords?: string[];
+  // Cancels the provider request; a TimeoutError reason is reported as "timeout"
+  signal?: AbortSignal;
+}
+
+// Hotwords as a provider prompt
+function hotwordPrompt(hotwords: string[] | undefined): string | undefined {
+  return hotwords?.length ? hotwords.join(", ") : undefined;
+}
+
+export interface TranscriptionProvider {
+  name: string;
+  model: string;
+  transcribe(audioData: Uint8Array<ArrayBuffer>, options?: TranscriptionOptions): Promise<TranscriptionResult>;
+  // Problem with the provider's settings (missing key, bad URL), or null
+  checkConfiguration(): string | null;
+}
+
+function invalidUrl(url: string): string | null {
+  return URL.canParse(url) ? null : `Invalid provider URL: ${url}`;
+}
+
+const FILE_EXTENSIONS: Record<string, string> = {
+  "audio/wav": "wav",
+  "audio/webm": "webm",
+  "audio/ogg": "ogg",
+  "audio/mpeg": "mp3",
+  "audio/mp4": "m4a",
+};
+
+export type TranscriptionErrorCode = "auth" | "quota" | "bad_audio" | "provider_down" | "timeout";
+
+// HTTP status /api/upload answers with for each error class
+const ERROR_STATUS: Record<TranscriptionErrorCode, number> = {
+  auth: 502,
+  quota: 429,
+  bad_audio: 422,
+  provider_down: 503,
+  timeout: 504,
+};
+
+// Provider failure, classified so callers can decide whether to retry
+// and what to tell the client
+export class TranscriptionError extends Error {
+  status: number;
+
+  constructor(
+    public code: TranscriptionErrorCode,
+    message: string,
+    // Whether sending the same request again may succeed
+    public retryable = false,
+    // Delay the provider asked for through Retry-After
+    public retryAfterMs?: number,
+  ) {
+    super(message);
+    this.name = "TranscriptionError";
+    this.status = ERROR_STATUS[code];
+  }
+}
+
+// Retry-After is either delay-seconds or an HTTP date
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Map a non-2xx provider response onto the error taxonomy
+export function classifyResponse(
+  name: string,
+  status: number,
+  body: string,
+  retryAfter: string | null = null,
+): TranscriptionError {
+  const message = `${name} API error: ${status} - ${body}`;
+  const retryAfterMs = parseRetryAfter(retryAfter);
+
+  if (status === 401 || status === 403) {
+    return new TranscriptionError("auth", message);
+  }
+  if (status === 402) {
+    return new TranscriptionError("quota", message);
+  }
+  if (status === 429) {
+    return new TranscriptionError("quota", message, true, retryAfterMs);
+  }
+  if (status === 408) {
+    return new TranscriptionError("timeout", message, true, retryAfterMs);
+  }
+  if (status >= 400 && status < 500) {
+    return new TranscriptionError("bad_audio", message);
+  }
+  return new TranscriptionError("provider_down", message, status >= 500, retryAfterMs);
+}
+
+// POST a multipart form to a provider and parse its JSON reply; every
+// failure surfaces as a TranscriptionError
+async function postForm(
+  name: string,
+  url: string,
+  body: FormData,
+  { headers, signal }: { headers?: Record<string, string>; signal?: AbortSignal } = {},
+): Promise<{ text: string; language?: string }> {
+  let response: Response;
+  try {
+    response = await fetch(url, { method: "POST", headers, body, signal });
+  } catch (error) {
+    if (signal?.aborted && signal.reason instanceof DOMException && signal.reason.name === "TimeoutError") {
+      throw new TranscriptionError("timeout", `${name} API did not respond in time`, true);
+    }
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new TranscriptionError("provider_down", `${name} API unreachable: ${reason}`, true);
+  }
+
+  if (!response.ok) {
+    throw classifyResponse(name, response.status, await response.text(), response.headers.get("Retry-After"));
+  }
+
+  try {
+    return await response.json();
+  } catch {
+    throw new TranscriptionError("provider_down", `${name} API returned an invalid response`, true);
+  }
+}
+
+// Multipart file part named after the audio container
+function audioFile(audioData: Uint8Array<ArrayBuffer>, mimeType = "audio/wav"): [Blob, string] {
+  return [new Blob([audioData], { type: mimeType }), `recording.${FILE_EXTENSIONS[mimeType] ?? "wav"}`];
+}
+
+export type ProviderName = "siliconflow" | "openai" | "whisper" | "fake";
+
+export const PROVIDER_NAMES: ProviderName[] = ["siliconflow", "openai", "whisper", "fake"];
+
+// Any endpoint that speaks the OpenAI /v1/audio/transcriptions API
+class OpenAICompatibleProvider implements TranscriptionProvider {
+  constructor(
+    public name: string,
+    public model: string,
+    private baseUrl: string,
+    private apiKey: string | undefined,
+    private apiKeyVar?: string,
+  ) {}
+
+  checkConfiguration(): string | null {
+    if (this.apiKeyVar && !this.apiKey) {
+      return `${this.apiKeyVar} not configured`;
+    }
+    return invalidUrl(this.baseUrl);
+  }
+
+  async transcribe(audioData: Uint8Array<ArrayBuffer>, options: TranscriptionOptions = {}): Promise<TranscriptionResult> {
+    if (this.apiKeyVar && !this.apiKey) {
+      throw new TranscriptionError("auth", `${this.apiKeyVar} not configured`);
+    }
+
+    const formData = new FormData();
+    formData.append("file", ...audioFile(audioData, options.mimeType));
+    formData.append("model", options.model ?? this.model);
+    if (options.language && options.language !== "auto") {
+      formData.append("language", options.language);
+    }
+    const prompt = hotwordPrompt(options.hotwords);
+    if (prompt) {
+      formData.append("prompt", prompt);
+    }
+
+    const headers: Record<string, string> = {};
+    if (this.apiKey) {
+      headers["Authorization"] = `Bearer ${this.apiKey}`;
+    }
+
+    const result = await postForm(this.name, `${this.baseUrl}/audio/transcriptions`, formData, {
+      headers,
+      signal: options.signal,
+    });
+    return richResult(result.text, result.language);
+  }
+}
+
+// whisper.cpp `server` example (POST /inference)
+class WhisperServerProvider implements TranscriptionProvider {
+  name = "whisper";
+
+  constructor(public model: string, private baseUrl: string) {}
+
+  checkConfiguration(): string | null {
+    return invalidUrl(this.baseUrl);
+  }
+
+  async transcribe(audioData: Uint8Array<ArrayBuffer>, options: TranscriptionOptions = {}): Promise<TranscriptionResult> {
+    const formData = new FormData();
+    formData.append("file", ...audioFile(audioData, options.mimeType));
+    formData.append("response_format", "json");
+    // The server falls back to its own default language (usually "en") when none is sent
+    formData.append("language", options.language ?? "auto");
+    const prompt = hotwordPrompt(options.hotwords);
+    if (prompt) {
+      formData.append("prompt", prompt);
+    }
+
+    const result = await postForm(this.name, `${this.baseUrl}/inference`, formData, { signal: options.signal });
+    return richResult(result.text.trim(), result.language);
+  }
+}
+
+// Deterministic provider for offline tests: never touches the network.
+// With failStatus set it fails every call as if the API answered that status.
+class FakeProvider implements TranscriptionProvider {
+  name = "fake";
+  model = "fake";
+
+  constructor(private text: string | undefined, private failStatus?: number) {}
+
+  checkConfiguration(): string | null {
+    return null;
+  }
+
+  transcribe(audioData: Uint8Array<ArrayBuffer>, options: TranscriptionOptions = {}): Promise<TranscriptionResult> {
+    if (this.failStatus) {
+      return Promise.reject(classifyResponse(this.name, this.failStatus, "simulated failure"));
+    }
+    return Promise.resolve(richResult(
+      this.text ?? `fake transcript (${audioData.byteLength} bytes)`,
+      options.language !== "auto" ? options.language : undefined,
+    ));
+  }
+}
+
+function trimSlash(url: string): string {
+  return url.replace(/\/+$/, "");
+}
+
+// Settings for every provider; only the selected one is used
+export interface ProviderSettings {
+  provider: ProviderName;
+  siliconflow: { model: string; apiKey?: string };
+  openai: { model: string; baseUrl: string; apiKey?: string };
+  whisper: { model: string; url: string };
+  fake: { transcript?: string; failStatus?: number };
+}
+
+// Build the provider selected by TRANSCRIPTION_PROVIDER
+export function createTranscriptionProvider(settings: ProviderSettings): TranscriptionProvider {
+  switch (settings.provider) {
+    case "siliconflow":
+      return new OpenAICompatibleProvider(
+        "siliconflow",
+        settings.siliconflow.model,
+        "https://api.siliconflow.cn/v1",
+        settings.siliconflow.apiKey,
+        "SILICONFLOW_API_KEY",
+      );
+
+    case "openai":
+      return new OpenAICompatibleProvider(
+        "openai",
+        settings.openai.model,
+        trimSlash(settings.openai.baseUrl),
+        settings.openai.apiKey,
+      );
+
+    case "whisper":
+      return new WhisperServerProvider(settings.whisper.model, trimSlash(settings.whisper.url));
+
+    case "fake":
+      return new FakeProvider(settings.fake.transcript, settings.fake.failStatus);
+
+    default:
+      throw new Error(`Unknown TRANSCRIPTION_PROVIDER: ${settings.provider}`);
+  }
+}
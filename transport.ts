@@ -0,0 +1,420 @@
+/**
+ * MCP Streamable HTTP transport
+ *
+ * Serves the /mcp endpoint: single and batched JSON-RPC messages over POST,
+ * JSON or SSE responses, Mcp-Session-Id sessions issued on initialize,
+ * protocol version negotiation, a GET stream for server-initiated messages
+ * and DELETE for session teardown.
+ */
+
+import type { Client } from "./auth.ts";
+import { errorFields, logger } from "./log.ts";
+import type { Storage } from "./storage.ts";
+
+export interface MCPRequest {
+  jsonrpc: "2.0";
+  id?: number | string;
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+export interface MCPResponse {
+  jsonrpc: "2.0";
+  id?: number | string | null;
+  result?: unknown;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+export interface MCPNotification {
+  jsonrpc: "2.0";
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+// Newest first; the first entry is offered when the client asks for something unknown
+export const SUPPORTED_PROTOCOL_VERSIONS = ["2025-06-18", "2025-03-26", "2024-11-05"];
+export const LATEST_PROTOCOL_VERSION = SUPPORTED_PROTOCOL_VERSIONS[0];
+
+export function negotiateProtocolVersion(requested: unknown): string {
+  return typeof requested === "string" && SUPPORTED_PROTOCOL_VERSIONS.includes(requested)
+    ? requested
+    : LATEST_PROTOCOL_VERSION;
+}
+
+interface TransportSession {
+  id: string;
+  protocolVersion: string;
+  createdAt: number;
+  // API key that initialized the session; other keys can't use it
+  client?: string;
+}
+
+// What the server resolved about the HTTP request carrying the messages
+export interface MCPRequestInfo {
+  // API key and IP the request came from
+  client?: Client;
+  // Public origin the request reached the server at
+  baseUrl?: string;
+}
+
+// Per-request context handed to the MCP method handler
+export interface MCPRequestContext extends MCPRequestInfo {
+  sessionId?: string;
+  // Aborted when the client sends notifications/cancelled for this request
+  signal: AbortSignal;
+  // Send a notification related to this request (SSE stream, or the GET stream as fallback)
+  notify(notification: MCPNotification): void;
+}
+
+export interface MCPTransportOptions {
+  storage: Storage;
+  headers: Record<string, string>;
+  handleRequest: (request: MCPRequest, context: MCPRequestContext) => Promise<MCPResponse>;
+  // Called once an MCP session is deleted or has expired, to drop what the
+  // server keeps for it in this isolate
+  onSessionClosed?: (sessionId: string) => void;
+}
+
+const SESSION_HEADER = "Mcp-Session-Id";
+const PROTOCOL_VERSION_HEADER = "MCP-Protocol-Version";
+const SESSION_TTL = 24 * 60 * 60 * 1000;
+const KEEPALIVE_INTERVAL = 15000;
+
+// Open GET streams per MCP session, for server-initiated messages
+const streams = new Map<string, Set<ReadableStreamDefaultController<Uint8Array>>>();
+const encoder = new TextEncoder();
+
+function sseEvent(message: unknown): Uint8Array {
+  return encoder.encode(`event: message\ndata: ${JSON.stringify(message)}\n\n`);
+}
+
+// Push a message to every GET stream of an MCP session.
+// Returns false when the session has no open stream in this isolate.
+export function sendToSession(sessionId: string, message: MCPNotification | MCPRequest): boolean {
+  const controllers = streams.get(sessionId);
+  if (!controllers || controllers.size === 0) {
+    return false;
+  }
+  for (const controller of controllers) {
+    controller.enqueue(sseEvent(message));
+  }
+  return true;
+}
+
+// Push a message to every open GET stream of every MCP session in this isolate
+export function broadcast(message: MCPNotification): void {
+  for (const sessionId of streams.keys()) {
+    sendToSession(sessionId, message);
+  }
+}
+
+function closeStreams(sessionId: string): void {
+  for (const controller of streams.get(sessionId) ?? []) {
+    try {
+      controller.close();
+    } catch {
+      // already closed by the client
+    }
+  }
+  streams.delete(sessionId);
+}
+
+function isRequest(message: Record<string, unknown>): boolean {
+  return typeof message.method === "string" && message.id !== undefined && message.id !== null;
+}
+
+function isValidMessage(message: unknown): message is Record<string, unknown> {
+  if (typeof message !== "object" || message === null || Array.isArray(message)) {
+    return false;
+  }
+  const m = message as Record<string, unknown>;
+  return m.jsonrpc === "2.0" &&
+    (typeof m.method === "string" || "result" in m || "error" in m);
+}
+
+export function createMCPTransport(options: MCPTransportOptions): (req: Request, info?: MCPRequestInfo) => Promise<Response> {
+  const { storage, headers, handleRequest, onSessionClosed } = options;
+
+  // When each MCP session seen by this isolate expires; swept on every
+  // request, so the state of abandoned sessions doesn't pile up
+  const expiries = new Map<string, number>();
+
+  function closeSession(sessionId: string): void {
+    expiries.delete(sessionId);
+    closeStreams(sessionId);
+    onSessionClosed?.(sessionId);
+  }
+
+  function sweepExpired(): void {
+    const now = Date.now();
+    for (const [sessionId, expiresAt] of expiries) {
+      if (expiresAt <= now) {
+        closeSession(sessionId);
+      }
+    }
+  }
+
+  function jsonError(status: number, code: number, message: string): Response {
+    return new Response(
+      JSON.stringify({ jsonrpc: "2.0", id: null, error: { code, message } }),
+      { status, headers: { "Content-Type": "application/json", ...headers } },
+    );
+  }
+
+  // Resolve the Mcp-Session-Id of a non-initialize request, or the error response to send
+  async function resolveSession(req: Request, info: MCPRequestInfo): Promise<TransportSession | Response> {
+    const sessionId = req.headers.get(SESSION_HEADER);
+    if (!sessionId) {
+      return jsonError(400, -32000, `Bad Request: ${SESSION_HEADER} header is required`);
+    }
+
+    const entry = await storage.get<TransportSession>(["mcp-sessions", sessionId]);
+    if (!entry) {
+      // Deleted through another isolate
+      if (expiries.has(sessionId)) {
+        closeSession(sessionId);
+      }
+      return jsonError(404, -32001, "Session not found");
+    }
+    // Another key's session looks the same as a missing one
+    if (entry.value.client !== info.client?.key) {
+      return jsonError(404, -32001, "Session not found");
+    }
+    expiries.set(sessionId, entry.value.createdAt + SESSION_TTL);
+
+    const version = req.headers.get(PROTOCOL_VERSION_HEADER);
+    if (version && !SUPPORTED_PROTOCOL_VERSIONS.includes(version)) {
+      return jsonError(400, -32000, `Bad Request: Unsupported protocol version: ${version}`);
+    }
+
+    return entry.value;
+  }
+
+  // In-flight requests by MCP session and JSON-RPC id, for notifications/cancelled
+  const inFlight = new Map<string, AbortController>();
+
+  function inFlightKey(sessionId: string | undefined, requestId: unknown): string {
+    return `${sessionId ?? ""}:${JSON.stringify(requestId)}`;
+  }
+
+  // Run requests in order; responses to cancelled requests are dropped
+  async function runRequests(
+    requests: MCPRequest[],
+    sessionId: string | undefined,
+    info: MCPRequestInfo,
+    notify: (notification: MCPNotification) => void,
+  ): Promise<MCPResponse[]> {
+    const responses: MCPResponse[] = [];
+
+    for (const request of requests) {
+      const controller = new AbortController();
+      const key = inFlightKey(sessionId, request.id);
+      inFlight.set(key, controller);
+
+      try {
+        const response = await handleRequest(request, { ...info, sessionId, signal: controller.signal, notify });
+        if (!controller.signal.aborted) {
+          responses.push(response);
+        }
+      } catch (error) {
+        logger.error("MCP request failed", { method: request.method, mcpSessionId: sessionId, ...errorFields(error) });
+        responses.push({
+          jsonrpc: "2.0",
+          id: request.id,
+          error: { code: -32603, message: "Internal error" },
+        });
+      } finally {
+        inFlight.delete(key);
+      }
+    }
+
+    return responses;
+  }
+
+  async function handlePost(req: Request, info: MCPRequestInfo): Promise<Response> {
+    let body: unknown;
+    try {
+      body = await req.json();
+    } catch {
+      return jsonError(400, -32700, "Parse error");
+    }
+
+    const isBatch = Array.isArray(body);
+    const messages: unknown[] = isBatch ? body as unknown[] : [body];
+    if (messages.length === 0) {
+      return jsonError(400, -32600, "Invalid Request");
+    }
+
+    const isInitialize = messages.some((m) => (m as Record<string, unknown>)?.method === "initialize");
+    if (isInitialize && messages.length > 1) {
+      return jsonError(400, -32600, "Invalid Request: initialize must not be batched");
+    }
+
+    let session: TransportSession | undefined;
+    if (!isInitialize) {
+      const resolved = await resolveSession(req, info);
+      if (resolved instanceof Response) {
+        return resolved;
+      }
+      session = resolved;
+    }
+    const sessionId = session?.id;
+
+    const invalid: MCPResponse[] = [];
+    const requests: MCPRequest[] = [];
+    for (const message of messages) {
+      if (!isValidMessage(message)) {
+        invalid.push({ jsonrpc: "2.0", id: null, error: { code: -32600, message: "Invalid Request" } });
+      } else if (isRequest(message)) {
+        requests.push(message as unknown as MCPRequest);
+      } else if (message.method === "notifications/cancelled") {
+        const params = message.params as Record<string, unknown> | undefined;
+        inFlight.get(inFlightKey(sessionId, params?.requestId))?.abort(params?.reason);
+      }
+      // Other notifications and client responses are accepted without a reply
+    }
+
+    if (requests.length === 0 && invalid.length === 0) {
+      return new Response(null, { status: 202, headers });
+    }
+
+    const wantsSSE = req.headers.get("Accept")?.includes("text/event-stream") ?? false;
+    const sseHeaders = { "Content-Type": "text/event-stream", "Cache-Control": "no-cache" };
+
+    // Stream notifications and responses as they happen
+    if (wantsSSE && !isInitialize) {
+      let closed = false;
+      const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+          const send = (message: unknown) => {
+            if (!closed) {
+              controller.enqueue(sseEvent(message));
+            }
+          };
+          runRequests(requests, sessionId, info, send).then((responses) => {
+            [...invalid, ...responses].forEach(send);
+            if (!closed) {
+              closed = true;
+              controller.close();
+            }
+          });
+        },
+        // A dropped connection is not a cancellation; the requests run to completion
+        cancel() {
+          closed = true;
+        },
+      });
+      return new Response(stream, { headers: { ...sseHeaders, ...headers } });
+    }
+
+    const notify = (notification: MCPNotification) => {
+      if (sessionId) {
+        sendToSession(sessionId, notification);
+      }
+    };
+    const responses = [...invalid, ...await runRequests(requests, sessionId, info, notify)];
+
+    if (responses.length === 0) {
+      return new Response(null, { status: 202, headers });
+    }
+
+    const responseHeaders: Record<string, string> = { ...headers };
+
+    if (isInitialize) {
+      const result = responses[0].result as { protocolVersion?: string } | undefined;
+      if (result?.protocolVersion) {
+        const newSession: TransportSession = {
+          id: crypto.randomUUID(),
+          protocolVersion: result.protocolVersion,
+          createdAt: Date.now(),
+          client: info.client?.key,
+        };
+        await storage.set(["mcp-sessions", newSession.id], newSession, { expireIn: SESSION_TTL });
+        expiries.set(newSession.id, newSession.createdAt + SESSION_TTL);
+        responseHeaders[SESSION_HEADER] = newSession.id;
+      }
+    }
+
+    if (wantsSSE) {
+      const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+          for (const response of responses) {
+            controller.enqueue(sseEvent(response));
+          }
+          controller.close();
+        },
+      });
+      return new Response(stream, { headers: { ...sseHeaders, ...responseHeaders } });
+    }
+
+    return new Response(JSON.stringify(isBatch ? responses : responses[0]), {
+      headers: { "Content-Type": "application/json", ...responseHeaders },
+    });
+  }
+
+  async function handleGet(req: Request, info: MCPRequestInfo): Promise<Response> {
+    if (!req.headers.get("Accept")?.includes("text/event-stream")) {
+      return new Response("Method Not Allowed", { status: 405, headers: { Allow: "POST, DELETE", ...headers } });
+    }
+
+    const resolved = await resolveSession(req, info);
+    if (resolved instanceof Response) {
+      return resolved;
+    }
+    const sessionId = resolved.id;
+
+    let streamController: ReadableStreamDefaultController<Uint8Array>;
+    let keepalive: ReturnType<typeof setInterval> | undefined;
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        streamController = controller;
+        if (!streams.has(sessionId)) {
+          streams.set(sessionId, new Set());
+        }
+        streams.get(sessionId)!.add(controller);
+        keepalive = setInterval(() => {
+          try {
+            controller.enqueue(encoder.encode(": keepalive\n\n"));
+          } catch {
+            clearInterval(keepalive);
+          }
+        }, KEEPALIVE_INTERVAL);
+      },
+      cancel() {
+        clearInterval(keepalive);
+        streams.get(sessionId)?.delete(streamController);
+      },
+    });
+
+    return new Response(stream, {
+      headers: { "Content-Type": "text/event-stream", "Cache-Control": "no-cache", ...headers },
+    });
+  }
+
+  async function handleDelete(req: Request, info: MCPRequestInfo): Promise<Response> {
+    const resolved = await resolveSession(req, info);
+    if (resolved instanceof Response) {
+      return resolved;
+    }
+
+    await storage.delete(["mcp-sessions", resolved.id]);
+    closeSession(resolved.id);
+    return new Response(null, { status: 204, headers });
+  }
+
+  return (req: Request, info: MCPRequestInfo = {}): Promise<Response> => {
+    sweepExpired();
+    switch (req.method) {
+      case "POST":
+        return handlePost(req, info);
+      case "GET":
+        return handleGet(req, info);
+      case "DELETE":
+        return handleDelete(req, info);
+      default:
+        return Promise.resolve(
+          new Response("Method Not Allowed", { status: 405, headers: { Allow: "GET, POST, DELETE", ...headers } }),
+        );
+    }
+  };
+}
@@ -0,0 +1,174 @@
+import assert from "node:assert/strict";
+import { createMemoryStorage } from "./storage.ts";
+import { createMCPTransport, type MCPRequest, type MCPRequestContext, negotiateProtocolVersion } from "./transport.ts";
+
+const ALICE = { key: "alice", ip: "198.51.100.1" };
+const BOB = { key: "bob", ip: "198.51.100.2" };
+
+// Transport over an echo handler; "slow" waits until its request is cancelled
+function setup() {
+  const closed: string[] = [];
+  const handled: { request: MCPRequest; context: MCPRequestContext }[] = [];
+  const transport = createMCPTransport({
+    storage: createMemoryStorage(),
+    headers: {},
+    onSessionClosed: (sessionId) => closed.push(sessionId),
+    async handleRequest(request, context) {
+      handled.push({ request, context });
+      if (request.method === "initialize") {
+        return { jsonrpc: "2.0", id: request.id, result: { protocolVersion: "2025-06-18" } };
+      }
+      if (request.method === "slow") {
+        await new Promise((resolve) => context.signal.addEventListener("abort", resolve));
+      }
+      if (request.method === "notify") {
+        context.notify({ jsonrpc: "2.0", method: "notifications/progress", params: { progress: 1 } });
+      }
+      return { jsonrpc: "2.0", id: request.id, result: { method: request.method } };
+    },
+  });
+
+  const post = (body: unknown, headers: Record<string, string> = {}, client = ALICE) =>
+    transport(
+      new Request("http://localhost/mcp", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Accept: "application/json", ...headers },
+        body: typeof body === "string" ? body : JSON.stringify(body),
+      }),
+      { client },
+    );
+
+  const initialize = async (client = ALICE) => {
+    const response = await post({ jsonrpc: "2.0", id: 0, method: "initialize", params: {} }, {}, client);
+    await response.body?.cancel();
+    return response.headers.get("Mcp-Session-Id")!;
+  };
+
+  return { transport, post, initialize, closed, handled };
+}
+
+const call = (id: number, method: string, params?: Record<string, unknown>) => ({ jsonrpc: "2.0", id, method, params });
+
+Deno.test("negotiateProtocolVersion", () => {
+  assert.equal(negotiateProtocolVersion("2025-03-26"), "2025-03-26");
+  assert.equal(negotiateProtocolVersion("1999-01-01"), "2025-06-18");
+  assert.equal(negotiateProtocolVersion(undefined), "2025-06-18");
+});
+
+Deno.test("MCP transport", async (t) => {
+  await t.step("initialize issues a session", async () => {
+    const { initialize } = setup();
+    assert.match(await initialize(), /^[0-9a-f-]{36}$/);
+  });
+
+  await t.step("requires a known session after initialize", async () => {
+    const { post } = setup();
+    const missing = await post(call(1, "ping"));
+    assert.equal(missing.status, 400);
+    await missing.body?.cancel();
+    const unknown = await post(call(1, "ping"), { "Mcp-Session-Id": "nope" });
+    assert.equal(unknown.status, 404);
+    await unknown.body?.cancel();
+  });
+
+  await t.step("rejects malformed bodies and an unsupported protocol version", async () => {
+    const { post, initialize } = setup();
+    const sessionId = await initialize();
+    const parse = await post("{", { "Mcp-Session-Id": sessionId });
+    assert.equal((await parse.json()).error.code, -32700);
+    const empty = await post([], { "Mcp-Session-Id": sessionId });
+    assert.equal((await empty.json()).error.code, -32600);
+    const version = await post(call(1, "ping"), { "Mcp-Session-Id": sessionId, "MCP-Protocol-Version": "1999-01-01" });
+    assert.equal(version.status, 400);
+    await version.body?.cancel();
+  });
+
+  await t.step("answers a single request with JSON", async () => {
+    const { post, initialize } = setup();
+    const response = await post(call(1, "ping"), { "Mcp-Session-Id": await initialize() });
+    assert.equal(response.headers.get("Content-Type"), "application/json");
+    assert.deepEqual(await response.json(), { jsonrpc: "2.0", id: 1, result: { method: "ping" } });
+  });
+
+  await t.step("answers a batch in order, with invalid entries reported", async () => {
+    const { post, initialize } = setup();
+    const response = await post([call(1, "a"), { id: 9 }, call(2, "b")], { "Mcp-Session-Id": await initialize() });
+    const body = await response.json();
+    assert.equal(body.length, 3);
+    const ids = body.filter((message: { result?: unknown }) => message.result).map((message: { id: number }) => message.id);
+    assert.deepEqual(ids, [1, 2]);
+    assert.equal(body.find((message: { error?: unknown }) => message.error).error.code, -32600);
+  });
+
+  await t.step("initialize must not be batched", async () => {
+    const { post } = setup();
+    const response = await post([call(0, "initialize"), call(1, "ping")]);
+    assert.equal(response.status, 400);
+    assert.equal((await response.json()).error.code, -32600);
+  });
+
+  await t.step("accepts notifications with 202", async () => {
+    const { post, initialize } = setup();
+    const response = await post({ jsonrpc: "2.0", method: "notifications/initialized" }, {
+      "Mcp-Session-Id": await initialize(),
+    });
+    assert.equal(response.status, 202);
+  });
+
+  await t.step("streams notifications and the response over SSE", async () => {
+    const { post, initialize } = setup();
+    const response = await post(call(1, "notify"), {
+      "Mcp-Session-Id": await initialize(),
+      Accept: "application/json, text/event-stream",
+    });
+    assert.equal(response.headers.get("Content-Type"), "text/event-stream");
+    const events = (await response.text()).trim().split("\n\n").map((event) => JSON.parse(event.split("data: ")[1]));
+    assert.deepEqual(events.map((event) => event.method ?? event.id), ["notifications/progress", 1]);
+  });
+
+  await t.step("a cancelled request gets no response", async () => {
+    const { post, initialize, handled } = setup();
+    const sessionId = await initialize();
+    const pending = post(call(7, "slow"), { "Mcp-Session-Id": sessionId });
+    while (!handled.some(({ request }) => request.method === "slow")) {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+    }
+    const cancel = await post({ jsonrpc: "2.0", method: "notifications/cancelled", params: { requestId: 7 } }, {
+      "Mcp-Session-Id": sessionId,
+    });
+    assert.equal(cancel.status, 202);
+    const response = await pending;
+    assert.equal(response.status, 202);
+    assert.ok(handled.find(({ request }) => request.method === "slow")?.context.signal.aborted);
+  });
+
+  await t.step("hands the session and client to the handler", async () => {
+    const { post, initialize, handled } = setup();
+    const sessionId = await initialize();
+    await (await post(call(1, "ping"), { "Mcp-Session-Id": sessionId })).body?.cancel();
+    const { context } = handled.at(-1)!;
+    assert.equal(context.sessionId, sessionId);
+    assert.deepEqual(context.client, ALICE);
+  });
+
+  await t.step("another key can't use the session", async () => {
+    const { post, initialize } = setup();
+    const response = await post(call(1, "ping"), { "Mcp-Session-Id": await initialize(ALICE) }, BOB);
+    assert.equal(response.status, 404);
+    await response.body?.cancel();
+  });
+
+  await t.step("DELETE ends the session", async () => {
+    const { transport, post, initialize, closed } = setup();
+    const sessionId = await initialize();
+    const deleted = await transport(
+      new Request("http://localhost/mcp", { method: "DELETE", headers: { "Mcp-Session-Id": sessionId } }),
+      { client: ALICE },
+    );
+    assert.equal(deleted.status, 204);
+    assert.deepEqual(closed, [sessionId]);
+    const after = await post(call(1, "ping"), { "Mcp-Session-Id": sessionId });
+    assert.equal(after.status, 404);
+    await after.body?.cancel();
+  });
+});